@@ -0,0 +1,120 @@
+/**
+ * Compare the bulk (jsonb unnest) and VALUES insert paths on a generated CSV.
+ *
+ *   DATABASE_URL=... pnpm bench [rows] [batchSize]
+ *
+ * Without a batch size each method uses its default (a whole chunk for bulk,
+ * 500 rows for VALUES).
+ *
+ * Rows are written to a throwaway user and list, deleted again at the end.
+ */
+import "dotenv/config";
+import csv from "csv-parser";
+import { randomUUID } from "crypto";
+import { once } from "events";
+import { createReadStream, createWriteStream } from "fs";
+import { rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { finished } from "stream/promises";
+import { eq } from "drizzle-orm";
+import { dbWs } from "../src/db/drizzle";
+import { lists, user } from "../src/db/schema";
+import { insertRows, InsertMethod } from "../src/insert";
+import { COMMIT_CHUNK_SIZE } from "../src/types";
+
+const ROWS = Number(process.argv[2]) || 100_000;
+const BATCH_SIZES: Record<InsertMethod, number> = {
+  values: Number(process.argv[3]) || 500,
+  bulk: Number(process.argv[3]) || COMMIT_CHUNK_SIZE,
+};
+const METHODS: InsertMethod[] = ["values", "bulk"];
+
+type PendingRow = { listId: string; jobId: string; data: Record<string, any> };
+
+async function generateCsv(file: string, rows: number): Promise<void> {
+  const out = createWriteStream(file);
+  out.write("name,email,age,signed_up,notes\n");
+  for (let i = 0; i < rows; i++) {
+    const day = String((i % 28) + 1).padStart(2, "0");
+    const age = 18 + (i % 60);
+    const line = `User ${i},user${i}@example.com,${age},2024-01-${day},"Row ${i}, with a comma"\n`;
+    if (!out.write(line)) await once(out, "drain");
+  }
+  out.end();
+  await finished(out);
+}
+
+/**
+ * Load the file into a new list the way the worker does: chunks of
+ * COMMIT_CHUNK_SIZE rows per transaction, a batch per insert statement
+ */
+async function load(
+  file: string,
+  userId: string,
+  method: InsertMethod
+): Promise<number> {
+  const jobId = `bench-${method}-${randomUUID()}`;
+  const [list] = await dbWs
+    .insert(lists)
+    .values({ userId, name: `Insert benchmark (${method})`, jobId })
+    .returning({ id: lists.id });
+
+  const commit = (chunk: PendingRow[]) =>
+    dbWs.transaction(async (tx) => {
+      const batchSize = BATCH_SIZES[method];
+      for (let i = 0; i < chunk.length; i += batchSize) {
+        await insertRows(tx, chunk.slice(i, i + batchSize), method);
+      }
+    });
+
+  const started = performance.now();
+  let chunk: PendingRow[] = [];
+  for await (const row of createReadStream(file).pipe(csv())) {
+    chunk.push({ listId: list.id, jobId, data: row });
+    if (chunk.length === COMMIT_CHUNK_SIZE) {
+      await commit(chunk);
+      chunk = [];
+    }
+  }
+  await commit(chunk);
+  return performance.now() - started;
+}
+
+async function main() {
+  const file = path.join(tmpdir(), `bench-insert-${randomUUID()}.csv`);
+  const userId = `bench-${randomUUID()}`;
+
+  console.log(
+    `Generating ${ROWS} rows, committing ${COMMIT_CHUNK_SIZE} per transaction`
+  );
+  await generateCsv(file, ROWS);
+
+  await dbWs.insert(user).values({
+    id: userId,
+    name: "Insert benchmark",
+    email: `${userId}@example.com`,
+  });
+
+  try {
+    for (const method of METHODS) {
+      const ms = await load(file, userId, method);
+      console.log(
+        `${method.padEnd(6)} batch ${BATCH_SIZES[method]}: ${(
+          ms / 1000
+        ).toFixed(2)}s, ${Math.round((ROWS / ms) * 1000)} rows/s`
+      );
+    }
+  } finally {
+    // Cascades to the lists and their rows
+    await dbWs.delete(user).where(eq(user.id, userId));
+    await rm(file, { force: true });
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Benchmark failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,94 @@
+/**
+ * Check that the configured status store (JOB_STATUS_BACKEND) gives back
+ * merged statuses unchanged: empty arrays stay arrays, nested values and
+ * nulls survive, later merges keep earlier fields, and null removes a field.
+ *
+ *   pnpm check:status
+ *
+ * Writes a status under a random job id, which expires with the store's TTL.
+ * Exits non-zero on the first failed check.
+ */
+import "dotenv/config";
+import assert from "assert/strict";
+import { randomUUID } from "crypto";
+import { getStatusStore } from "../src/status";
+import { JobStatus } from "../src/types";
+
+const store = getStatusStore();
+const jobId = randomUUID();
+
+const headers: JobStatus["headers"] = {
+  matchedBy: "name",
+  missing: [],
+  unexpected: [],
+};
+
+const checks: [string, () => Promise<void>][] = [
+  [
+    "a new status starts queued",
+    async () => {
+      const status = await store.merge(jobId, { processedRows: 0 });
+      assert.deepEqual(status, { jobId, state: "queued", processedRows: 0 });
+    },
+  ],
+  [
+    "empty arrays and nested values round-trip",
+    async () => {
+      const merged = await store.merge(jobId, { headers, violations: [] });
+      assert.deepEqual(merged.headers, headers);
+      assert.deepEqual(merged.violations, []);
+      assert.deepEqual(await store.get(jobId), merged);
+    },
+  ],
+  [
+    "a later merge keeps the other fields as they were",
+    async () => {
+      const merged = await store.merge(jobId, {
+        state: "running",
+        processedRows: 500,
+        error: undefined,
+      });
+      assert.deepEqual(merged, {
+        jobId,
+        state: "running",
+        processedRows: 500,
+        headers,
+        violations: [],
+      });
+      assert.deepEqual(await store.get(jobId), merged);
+    },
+  ],
+  [
+    "a null update removes the field",
+    async () => {
+      await store.merge(jobId, { error: "boom", finishedAt: "2024-01-01" });
+      const merged = await store.merge(jobId, {
+        error: null,
+        finishedAt: null,
+        violations: null,
+      });
+      assert.deepEqual(merged, {
+        jobId,
+        state: "running",
+        processedRows: 500,
+        headers,
+      });
+      assert.deepEqual(await store.get(jobId), merged);
+    },
+  ],
+];
+
+async function main() {
+  console.log(`Checking the ${store.name} status store with job ${jobId}`);
+  for (const [name, check] of checks) {
+    await check();
+    console.log(`ok   ${name}`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Status store check failed:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,173 @@
+/**
+ * Deliver webhooks to a local stub receiver and check their signatures,
+ * retries and giving up, and that sendWebhook does not wait for delivery.
+ * Needs no network, database or status store.
+ *
+ *   pnpm check:webhook
+ *
+ * Retries use the real backoff, so this takes about half a minute. Exits
+ * non-zero on the first failed check.
+ */
+import assert from "assert/strict";
+import { createServer, IncomingMessage } from "http";
+import { AddressInfo } from "net";
+import { JobStatus, WebhookDelivery, WEBHOOK_MAX_ATTEMPTS } from "../src/types";
+
+// Read by src/webhook.ts when it is loaded
+const SECRET = "check-webhook-secret";
+process.env.WEBHOOK_SIGNING_SECRET = SECRET;
+
+type Received = {
+  timestamp: string;
+  signature: string;
+  body: string;
+};
+
+// Status code the stub answers each attempt with, by path; the last one
+// repeats, and a 0 leaves the request hanging for a while
+const responses = new Map<string, number[]>();
+const received = new Map<string, Received[]>();
+
+const server = createServer(async (req, res) => {
+  const body = await readBody(req);
+  const path = req.url!;
+  const attempts = received.get(path) ?? [];
+  attempts.push({
+    timestamp: String(req.headers["x-webhook-timestamp"]),
+    signature: String(req.headers["x-webhook-signature"]),
+    body,
+  });
+  received.set(path, attempts);
+
+  const codes = responses.get(path) ?? [200];
+  const code = codes[Math.min(attempts.length, codes.length) - 1];
+  if (code === 0) {
+    setTimeout(() => res.writeHead(200).end(), 1500);
+    return;
+  }
+  res.writeHead(code).end();
+});
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function status(jobId: string): JobStatus {
+  return {
+    jobId,
+    state: "succeeded",
+    listId: "list-1",
+    processedRows: 3,
+    headers: { matchedBy: "name", missing: [], unexpected: [] },
+  } as JobStatus;
+}
+
+async function main() {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const { deliverWebhook, sendWebhook, signWebhook, waitForWebhooks } =
+    await import("../src/webhook");
+
+  const checks: [string, () => Promise<void>][] = [
+    [
+      "a delivery is signed over its timestamp and body",
+      async () => {
+        const sent = status("signed");
+        const delivery = await deliverWebhook(`${baseUrl}/signed`, sent);
+        assert.equal(delivery.delivered, true);
+        assert.equal(delivery.attempts, 1);
+        assert.equal(delivery.statusCode, 200);
+
+        const [request] = received.get("/signed")!;
+        assert.deepEqual(JSON.parse(request.body), sent);
+        assert.equal(
+          request.signature,
+          `v1=${signWebhook(SECRET, Number(request.timestamp), request.body)}`
+        );
+        assert.ok(
+          Math.abs(Number(request.timestamp) - Date.now() / 1000) < 5,
+          "timestamp is not current"
+        );
+      },
+    ],
+    [
+      "429 and 5xx responses are retried until one succeeds",
+      async () => {
+        responses.set("/retry", [503, 429, 200]);
+        const delivery = await deliverWebhook(
+          `${baseUrl}/retry`,
+          status("retry")
+        );
+        assert.equal(delivery.delivered, true);
+        assert.equal(delivery.attempts, 3);
+        assert.equal(received.get("/retry")!.length, 3);
+      },
+    ],
+    [
+      "other responses are final",
+      async () => {
+        responses.set("/rejected", [400]);
+        const delivery = await deliverWebhook(
+          `${baseUrl}/rejected`,
+          status("rejected")
+        );
+        assert.deepEqual(delivery, {
+          delivered: false,
+          attempts: 1,
+          statusCode: 400,
+          error: "HTTP 400",
+        });
+      },
+    ],
+    [
+      `delivery gives up after ${WEBHOOK_MAX_ATTEMPTS} failed attempts`,
+      async () => {
+        responses.set("/down", [500]);
+        const delivery = await deliverWebhook(
+          `${baseUrl}/down`,
+          status("down")
+        );
+        assert.equal(delivery.delivered, false);
+        assert.equal(delivery.attempts, WEBHOOK_MAX_ATTEMPTS);
+        assert.equal(delivery.error, "HTTP 500");
+        assert.equal(received.get("/down")!.length, WEBHOOK_MAX_ATTEMPTS);
+      },
+    ],
+    [
+      "sendWebhook returns before a slow receiver answers",
+      async () => {
+        responses.set("/slow", [0]);
+        const outcomes: WebhookDelivery[] = [];
+        const started = performance.now();
+        sendWebhook(`${baseUrl}/slow`, status("slow"), async (delivery) => {
+          outcomes.push(delivery);
+        });
+        assert.ok(performance.now() - started < 100, "sendWebhook waited");
+        assert.equal(outcomes.length, 0);
+
+        assert.equal(await waitForWebhooks(100), false);
+        assert.equal(await waitForWebhooks(5000), true);
+        assert.equal(outcomes[0]?.delivered, true);
+      },
+    ],
+  ];
+
+  for (const [name, check] of checks) {
+    const started = performance.now();
+    await check();
+    console.log(`ok   ${name} (${Math.round(performance.now() - started)}ms)`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Webhook check failed:", error);
+    process.exit(1);
+  });
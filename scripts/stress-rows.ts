@@ -0,0 +1,444 @@
+/**
+ * Stress the row pipeline with slow, randomly delayed commits and check that
+ * every row is committed exactly once, in order, and that failures stop it
+ * cleanly; then drive processRows itself with a stubbed commit. Needs no
+ * database or storage.
+ *
+ *   pnpm stress [rows] [chunkSize]
+ *
+ * Exits non-zero on the first failed check.
+ */
+import csv from "csv-parser";
+import { setTimeout as sleep } from "timers/promises";
+import { Readable } from "stream";
+import assert from "assert/strict";
+import { readRowChunks, RowChunk, SourceRow } from "../src/row-pipeline";
+import { readJsonRecords } from "../src/json-source";
+import {
+  processRows,
+  ChunkCommitter,
+  PendingRow,
+  ImportTarget,
+} from "../src/worker";
+import { ErrorReport } from "../src/error-report";
+import { ViolationSummary } from "../src/validation";
+import { JobLeaseHeartbeat } from "../src/lease";
+import { Column, COMMIT_CHUNK_SIZE } from "../src/types";
+
+// processRows reports progress and checks for cancellation in the status store
+process.env.JOB_STATUS_BACKEND = "memory";
+
+const ROWS = Number(process.argv[2]) || 20_000;
+const CHUNK_SIZE = Number(process.argv[3]) || 500;
+const HEADER = "id,name,notes\n";
+// Rows the streams between the generator and the pipeline may hold on top
+// of the chunk being built (object buffers of 16 on each side)
+const BUFFER_SLACK = 64;
+
+type Committed = { id: number; line: number };
+
+function csvLine(id: number): string {
+  return `${id},Row ${id},"Note ${id}, quoted"\n`;
+}
+
+/**
+ * A CSV source that generates its lines on demand, counting how many were
+ * read, with an optional malformed line. It starts past the header, like a
+ * stream whose header was skipped, but line numbers still count it.
+ */
+function createSource(
+  fromId: number,
+  badLine?: number
+): { rows: Readable; linesRead: () => number } {
+  let lines = 0;
+  async function* text() {
+    for (let id = fromId; id <= ROWS; id++) {
+      lines++;
+      // A row with a missing cell fails strict parsing
+      yield id + 1 === badLine ? `${id},Row ${id}\n` : csvLine(id);
+    }
+  }
+
+  const rows = Readable.from(text(), { objectMode: false }).pipe(
+    csv({
+      headers: ["id", "name", "notes"],
+      outputByteOffset: true,
+      strict: true,
+    })
+  );
+  return { rows, linesRead: () => lines };
+}
+
+interface RunOptions {
+  fromId?: number;
+  firstLine?: number;
+  replayedLines?: number;
+  badLine?: number;
+  failCommitAt?: number;
+  failMapAtLine?: number;
+}
+
+/**
+ * Drive the pipeline like processRows does, with commits that take a
+ * random 0-20ms and maps that occasionally stall
+ */
+async function run(options: RunOptions = {}) {
+  const { fromId = 1, firstLine = 0, replayedLines = 0 } = options;
+  const source = createSource(fromId, options.badLine);
+  const committed: Committed[] = [];
+  const chunks: RowChunk<Committed>[] = [];
+  let maxBuffered = 0;
+  let error: unknown;
+
+  try {
+    for await (const chunk of readRowChunks<Committed>(source.rows, {
+      firstLine,
+      replayedLines,
+      chunkSize: CHUNK_SIZE,
+      mapRow: async ({ row }, line) => {
+        if (line === options.failMapAtLine) {
+          throw new Error("map failed");
+        }
+        if (line % 997 === 0) await sleep(5);
+        return { id: Number(row.id), line };
+      },
+    })) {
+      maxBuffered = Math.max(
+        maxBuffered,
+        source.linesRead() - committed.length - chunk.rows.length
+      );
+      if (chunks.length === options.failCommitAt) {
+        throw new Error("commit failed");
+      }
+      await sleep(Math.random() * 20);
+      committed.push(...chunk.rows);
+      chunks.push(chunk);
+    }
+  } catch (err) {
+    error = err;
+  }
+
+  return { committed, chunks, maxBuffered, error, source: source.rows };
+}
+
+/**
+ * An NDJSON source over the bytes of a file from `start`, delivered in
+ * small, uneven chunks so lines straddle chunk boundaries
+ */
+function createNdjsonSource(text: Buffer, start: number): Readable {
+  function* bytes() {
+    for (let at = start, size = 1; at < text.length; at += size) {
+      size = 1 + ((at * 7) % 61);
+      yield text.subarray(at, at + size);
+    }
+  }
+
+  async function* rows(): AsyncGenerator<SourceRow> {
+    const stream = Readable.from(bytes(), { objectMode: false });
+    for await (const { value, byteOffset } of readJsonRecords(
+      stream,
+      "ndjson"
+    )) {
+      yield { row: value as Record<string, unknown>, byteOffset };
+    }
+  }
+
+  return Readable.from(rows());
+}
+
+/**
+ * Commit the rows of an NDJSON source, stopping after `stopAfter` chunks
+ * like a crashed run
+ */
+async function runNdjson(
+  text: Buffer,
+  start: number,
+  firstLine: number,
+  stopAfter = Infinity
+) {
+  const committed: Committed[] = [];
+  const chunks: RowChunk<Committed>[] = [];
+  for await (const chunk of readRowChunks<Committed>(
+    createNdjsonSource(text, start),
+    {
+      firstLine,
+      replayedLines: 0,
+      chunkSize: CHUNK_SIZE,
+      mapRow: async ({ row }, line) => ({ id: Number(row.id), line }),
+    }
+  )) {
+    if (chunks.length === stopAfter) break;
+    committed.push(...chunk.rows);
+    chunks.push(chunk);
+  }
+  return { committed, chunks };
+}
+
+const COLUMNS: Column[] = [
+  { name: "id", key: "id", type: "integer", order: 0 },
+  { name: "name", key: "name", type: "string", order: 1 },
+  { name: "notes", key: "notes", type: "string", order: 2 },
+];
+
+type StubCommit = {
+  rows: PendingRow[];
+  progress: Parameters<ChunkCommitter>[1];
+  completed: boolean;
+};
+
+/**
+ * Run processRows over a CSV source with commits that take a random 0-20ms
+ * instead of a database transaction, optionally failing one
+ */
+async function runProcessRows(failCommitAt?: number) {
+  const jobId = `stress-${Date.now()}`;
+  const source = createSource(1);
+  const commits: StubCommit[] = [];
+  const target: ImportTarget = {
+    listId: "stress-list",
+    columns: COLUMNS,
+    checkpoint: {
+      jobId,
+      listId: "stress-list",
+      sourceEtag: null,
+      workerId: null,
+      csvFormat: null,
+      headerMapping: null,
+      byteOffset: 0,
+      linesConsumed: 0,
+      processedRows: 0,
+      skippedRows: 0,
+      insertedRows: 0,
+      updatedRows: 0,
+      duplicateRows: 0,
+      completedAt: null,
+      updatedAt: new Date(),
+    },
+  };
+
+  // processRows logs each commit and progress report
+  const log = console.log;
+  console.log = () => {};
+  let error: unknown;
+  try {
+    await processRows(source.rows, {
+      jobId,
+      target,
+      startOffset: 0,
+      offsetBase: 0,
+      bytesRead: () => 0,
+      firstRowIsHeader: false,
+      cells: false,
+      headerPolicy: "ignoreExtra",
+      rowErrors: {
+        mode: "fail",
+        maxErrors: 0,
+        report: new ErrorReport(COLUMNS.map((col) => col.name)),
+        save: async () => {},
+      },
+      violations: new ViolationSummary(),
+      lease: { lost: false } as JobLeaseHeartbeat,
+      commit: async (rows, progress, completed) => {
+        if (commits.length === failCommitAt) {
+          throw new Error("commit failed");
+        }
+        await sleep(Math.random() * 20);
+        commits.push({ rows, progress, completed });
+      },
+    });
+  } catch (err) {
+    error = err;
+  } finally {
+    console.log = log;
+  }
+
+  return { commits, error, source: source.rows };
+}
+
+function assertSequence(committed: Committed[], fromId: number, toId: number) {
+  assert.equal(committed.length, toId - fromId + 1, "row count");
+  committed.forEach((row, index) => {
+    assert.equal(
+      row.id,
+      fromId + index,
+      `row ${index} out of order or duplicated`
+    );
+    // Line numbers count the header
+    assert.equal(row.line, row.id + 1, `row ${row.id} has the wrong line`);
+  });
+}
+
+const checks: [string, () => Promise<void>][] = [
+  [
+    "slow commits keep every row once, in order, with bounded buffering",
+    async () => {
+      const { committed, chunks, maxBuffered, error } = await run({
+        firstLine: 1,
+      });
+      assert.equal(error, undefined);
+      assertSequence(committed, 1, ROWS);
+      assert.ok(chunks.at(-1)!.completed, "last chunk is not marked completed");
+      assert.ok(
+        chunks.slice(0, -1).every((chunk) => chunk.rows.length === CHUNK_SIZE)
+      );
+      assert.ok(
+        maxBuffered <= BUFFER_SLACK,
+        `${maxBuffered} rows read ahead of the chunk being committed`
+      );
+    },
+  ],
+  [
+    "chunk offsets resume at the next row",
+    async () => {
+      const { chunks } = await run({ firstLine: 1 });
+      const text =
+        HEADER +
+        Array.from({ length: ROWS }, (_, i) => csvLine(i + 1)).join("");
+      for (const chunk of chunks.filter((chunk) => !chunk.completed)) {
+        const nextId = chunk.rows.at(-1)!.id + 1;
+        assert.ok(
+          text.startsWith(csvLine(nextId), chunk.byteOffset! + HEADER.length),
+          `chunk ending at line ${chunk.linesConsumed} points past row ${nextId}`
+        );
+        assert.equal(chunk.linesConsumed, nextId, "linesConsumed");
+      }
+    },
+  ],
+  [
+    "a ranged resume continues after the checkpoint",
+    async () => {
+      const fromId = Math.floor(ROWS / 3);
+      const { committed, error } = await run({ fromId, firstLine: fromId });
+      assert.equal(error, undefined);
+      assertSequence(committed, fromId, ROWS);
+    },
+  ],
+  [
+    "an NDJSON import resumes from its checkpoint at the next row",
+    async () => {
+      const text = Buffer.from(
+        Array.from(
+          { length: ROWS },
+          (_, i) => `{"id":${i + 1},"name":"Row ${i + 1}"}\n`
+        ).join("")
+      );
+      const first = await runNdjson(text, 0, 0, 2);
+      const checkpoint = first.chunks.at(-1)!;
+      assert.equal(first.committed.length, 2 * CHUNK_SIZE);
+
+      // A ranged read from the checkpoint offset, counting lines from it
+      const resumed = await runNdjson(
+        text,
+        checkpoint.byteOffset!,
+        checkpoint.linesConsumed
+      );
+      const committed = [...first.committed, ...resumed.committed];
+      assert.equal(committed.length, ROWS, "row count");
+      committed.forEach((row, index) => {
+        assert.equal(row.id, index + 1, `row ${index} skipped or duplicated`);
+        assert.equal(row.line, row.id, `row ${row.id} has the wrong line`);
+      });
+    },
+  ],
+  [
+    "a re-read file drops committed lines",
+    async () => {
+      const replayedLines = Math.floor(ROWS / 2) + 1;
+      const { committed, error } = await run({ firstLine: 1, replayedLines });
+      assert.equal(error, undefined);
+      assertSequence(committed, replayedLines, ROWS);
+    },
+  ],
+  [
+    "a failed commit stops reading and commits nothing after it",
+    async () => {
+      const { committed, chunks, error, source } = await run({
+        firstLine: 1,
+        failCommitAt: 3,
+      });
+      assert.equal((error as Error)?.message, "commit failed");
+      assert.equal(chunks.length, 3);
+      assertSequence(committed, 1, 3 * CHUNK_SIZE);
+      assert.ok(source.destroyed, "source was not destroyed");
+    },
+  ],
+  [
+    "a throw while mapping a row stops the import",
+    async () => {
+      const failMapAtLine = Math.floor(ROWS / 2);
+      const { committed, error, source } = await run({
+        firstLine: 1,
+        failMapAtLine,
+      });
+      assert.equal((error as Error)?.message, "map failed");
+      assert.ok(committed.every((row) => row.line < failMapAtLine));
+      assert.ok(source.destroyed, "source was not destroyed");
+    },
+  ],
+  [
+    "a parse error ends the import after the commit in flight",
+    async () => {
+      const badLine = Math.floor(ROWS / 2) + 7;
+      const { committed, error, source } = await run({ firstLine: 1, badLine });
+      assert.match(
+        String((error as Error)?.message),
+        /Row length does not match headers/
+      );
+      assert.ok(committed.length > 0 && committed.length % CHUNK_SIZE === 0);
+      assertSequence(committed, 1, committed.length);
+      assert.ok(committed.at(-1)!.line < badLine);
+      assert.ok(source.destroyed, "source was not destroyed");
+    },
+  ],
+  [
+    "processRows commits every row once, with the checkpoint after it",
+    async () => {
+      const { commits, error } = await runProcessRows();
+      assert.equal(error, undefined);
+      const ids = commits.flatMap(({ rows }) => rows.map((row) => row.data.id));
+      assert.deepEqual(
+        ids,
+        Array.from({ length: ROWS }, (_, i) => i + 1),
+        "rows skipped, duplicated or out of order"
+      );
+      assert.deepEqual(commits[0].rows[0].data, {
+        id: 1,
+        name: "Row 1",
+        notes: "Note 1, quoted",
+      });
+      let committedRows = 0;
+      for (const { rows, progress, completed } of commits) {
+        committedRows += rows.length;
+        assert.ok(rows.length <= COMMIT_CHUNK_SIZE, "chunk too large");
+        assert.equal(progress.processedRows, committedRows, "processedRows");
+        assert.equal(progress.linesConsumed, committedRows, "linesConsumed");
+        assert.equal(completed, committedRows === ROWS, "completed");
+      }
+    },
+  ],
+  [
+    "processRows stops at a failed commit",
+    async () => {
+      const { commits, error, source } = await runProcessRows(1);
+      assert.equal((error as Error)?.message, "commit failed");
+      assert.equal(commits.length, 1);
+      assert.ok(source.destroyed, "source was not destroyed");
+    },
+  ],
+];
+
+async function main() {
+  console.log(`Streaming ${ROWS} rows in chunks of ${CHUNK_SIZE}`);
+  for (const [name, check] of checks) {
+    const started = performance.now();
+    await check();
+    console.log(`ok   ${name} (${Math.round(performance.now() - started)}ms)`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Stress check failed:", error);
+    process.exit(1);
+  });
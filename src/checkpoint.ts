@@ -0,0 +1,112 @@
+import { and, eq } from "drizzle-orm";
+import { DbWsTransaction } from "./db/drizzle";
+import { importCheckpoints, ImportCheckpoint } from "./db/schema";
+import { CsvFormat } from "./csv-format";
+
+/**
+ * Position in the source file plus the row counts accumulated up to it, and
+ * how cells map to columns past the header row
+ */
+export type CheckpointProgress = Pick<
+  ImportCheckpoint,
+  | "byteOffset"
+  | "linesConsumed"
+  | "headerMapping"
+  | "processedRows"
+  | "skippedRows"
+  | "insertedRows"
+  | "updatedRows"
+  | "duplicateRows"
+>;
+
+/**
+ * Raised when a checkpoint moved underneath us or was claimed by another
+ * worker, i.e. another worker is importing the same job
+ */
+export class CheckpointConflictError extends Error {
+  constructor(readonly jobId: string) {
+    super(`Checkpoint for job ${jobId} was advanced by another worker`);
+    this.name = "CheckpointConflictError";
+  }
+}
+
+/**
+ * Claim the checkpoint of a job for the worker now holding its lease, if the
+ * job has started before. From then on a worker that lost the lease can no
+ * longer advance it; a chunk it is still committing either lands first, and
+ * is part of the checkpoint returned, or fails.
+ */
+export async function claimCheckpoint(
+  tx: DbWsTransaction,
+  jobId: string,
+  workerId: string
+): Promise<ImportCheckpoint | null> {
+  const [checkpoint] = await tx
+    .update(importCheckpoints)
+    .set({ workerId, updatedAt: new Date() })
+    .where(eq(importCheckpoints.jobId, jobId))
+    .returning();
+
+  return checkpoint ?? null;
+}
+
+/**
+ * Create the initial checkpoint of a job, before any row is committed
+ */
+export async function createCheckpoint(
+  tx: DbWsTransaction,
+  jobId: string,
+  listId: string,
+  sourceEtag: string | undefined,
+  csvFormat: CsvFormat | null, // null for spreadsheets
+  workerId: string
+): Promise<ImportCheckpoint> {
+  const [checkpoint] = await tx
+    .insert(importCheckpoints)
+    .values({
+      jobId,
+      listId,
+      sourceEtag: sourceEtag ?? null,
+      csvFormat,
+      workerId,
+    })
+    .returning();
+
+  return checkpoint;
+}
+
+/**
+ * Move a checkpoint forward inside the transaction that commits the chunk.
+ * The update only applies if the checkpoint is still where this worker left
+ * it and still claimed by it, so two workers can never both commit the same
+ * chunk, and a worker whose lease was taken over commits nothing more.
+ */
+export async function advanceCheckpoint(
+  tx: DbWsTransaction,
+  current: ImportCheckpoint,
+  progress: CheckpointProgress,
+  completed: boolean
+): Promise<ImportCheckpoint> {
+  const [checkpoint] = await tx
+    .update(importCheckpoints)
+    .set({
+      ...progress,
+      completedAt: completed ? new Date() : null,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(importCheckpoints.jobId, current.jobId),
+        eq(importCheckpoints.linesConsumed, current.linesConsumed),
+        // Set by claimCheckpoint or createCheckpoint for this worker
+        eq(importCheckpoints.workerId, current.workerId!)
+      )
+    )
+    .returning();
+
+  if (!checkpoint) {
+    throw new CheckpointConflictError(current.jobId);
+  }
+
+  return checkpoint;
+}
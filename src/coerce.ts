@@ -0,0 +1,363 @@
+import { Column } from "./types";
+
+/**
+ * Raised when a cell value cannot be converted to its column's type
+ */
+export class CoercionError extends Error {
+  constructor(
+    readonly column: Column,
+    readonly value: string,
+    readonly reason: string
+  ) {
+    super(`${reason} in column "${column.name}": ${value}`);
+    this.name = "CoercionError";
+  }
+}
+
+/**
+ * Convert a trimmed CSV cell into the value stored in list_rows.data
+ * for the given column. Throws a CoercionError when the value cannot be
+ * coerced to the column type.
+ */
+export function coerceValue(column: Column, value: string): unknown {
+  switch (column.type) {
+    case "jsonb":
+      return parseJsonValue(column, value);
+    case "number":
+      return value ? parseNumber(column, value) : null;
+    case "integer":
+      return value ? parseInteger(column, value) : null;
+    case "boolean":
+      return value ? parseBoolean(column, value) : null;
+    case "date":
+      return value ? parseDate(column, value).day : null;
+    case "timestamp":
+      return value ? parseDate(column, value).instant.toISOString() : null;
+    case "email":
+      return value ? parseEmail(column, value) : null;
+    case "url":
+      return value ? parseUrl(column, value) : null;
+    default:
+      return value || null;
+  }
+}
+
+/**
+ * Convert a field of a JSON record (NDJSON / JSON array input) into the value
+ * stored in list_rows.data. Strings go through coerceValue like CSV cells;
+ * objects and arrays are stored as-is in jsonb columns, and numbers and
+ * booleans are kept when they already fit the column type.
+ */
+export function coerceJsonValue(column: Column, value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "string") return coerceValue(column, value.trim());
+
+  if (typeof value === "object") {
+    if (column.type === "jsonb") return value;
+    throw new CoercionError(
+      column,
+      JSON.stringify(value),
+      "Nested value in a non-jsonb column"
+    );
+  }
+
+  switch (column.type) {
+    case "jsonb":
+      return value;
+    case "number":
+      if (typeof value === "number" && Number.isFinite(value)) return value;
+      break;
+    case "integer":
+      if (typeof value === "number" && Number.isSafeInteger(value)) {
+        return value;
+      }
+      break;
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      break;
+  }
+
+  // Anything else is read the way its CSV rendering would be
+  return coerceValue(column, String(value));
+}
+
+function parseJsonValue(column: Column, value: string): unknown {
+  if (!value) return null;
+
+  // Only attempt JSON parsing for values that look like JSON
+  const firstChar = value.match(/\S/)?.[0];
+  if (firstChar !== "{" && firstChar !== "[") return value;
+
+  try {
+    const parsed = JSON.parse(value);
+    if (
+      parsed !== null &&
+      (Array.isArray(parsed) || typeof parsed === "object")
+    ) {
+      return parsed;
+    }
+    return value;
+  } catch {
+    throw new CoercionError(column, value, "Invalid JSON");
+  }
+}
+
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+// Integer parts grouped in threes, by thousands separator
+const groupingCache = new Map<string, RegExp>();
+
+function parseNumber(column: Column, value: string): number {
+  const decimalSeparator = column.config?.decimalSeparator ?? ".";
+  const thousandsSeparator =
+    column.config?.thousandsSeparator ?? (decimalSeparator === "," ? "." : ",");
+
+  let normalized = value.replace(/\s/g, "");
+  if (thousandsSeparator && normalized.includes(thousandsSeparator)) {
+    // Only separators between groups of three digits, so a decimal comma
+    // ("1,5") is rejected rather than read as 15
+    const [integerPart, ...fraction] = normalized.split(decimalSeparator);
+    if (
+      !compileGrouping(thousandsSeparator).test(integerPart) ||
+      fraction.some((part) => part.includes(thousandsSeparator))
+    ) {
+      throw new CoercionError(column, value, "Invalid number");
+    }
+    normalized = normalized.split(thousandsSeparator).join("");
+  }
+  if (decimalSeparator !== ".") {
+    normalized = normalized.replace(decimalSeparator, ".");
+  }
+
+  const parsed = Number(normalized);
+  if (!NUMBER_PATTERN.test(normalized) || !Number.isFinite(parsed)) {
+    throw new CoercionError(column, value, "Invalid number");
+  }
+  return parsed;
+}
+
+function compileGrouping(separator: string): RegExp {
+  let regex = groupingCache.get(separator);
+  if (!regex) {
+    const escaped = separator.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    regex = new RegExp(`^[+-]?\\d{1,3}(?:${escaped}\\d{3})+$`);
+    groupingCache.set(separator, regex);
+  }
+  return regex;
+}
+
+function parseInteger(column: Column, value: string): number {
+  let parsed: number;
+  try {
+    parsed = parseNumber(column, value);
+  } catch {
+    throw new CoercionError(column, value, "Invalid integer");
+  }
+  if (!Number.isSafeInteger(parsed)) {
+    throw new CoercionError(column, value, "Invalid integer");
+  }
+  return parsed;
+}
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1"]);
+const FALSE_VALUES = new Set(["false", "no", "n", "0"]);
+
+function parseBoolean(column: Column, value: string): boolean {
+  const lowered = value.toLowerCase();
+  if (TRUE_VALUES.has(lowered)) return true;
+  if (FALSE_VALUES.has(lowered)) return false;
+  throw new CoercionError(column, value, "Invalid boolean");
+}
+
+// Tokens understood in a column's dateFormat hint, longest first so that
+// "YYYY" wins over "YY" and "MM" over "M".
+const DATE_TOKENS: Array<[string, string]> = [
+  ["YYYY", "(\\d{4})"],
+  ["SSS", "(\\d{1,3})"],
+  ["YY", "(\\d{2})"],
+  ["MM", "(\\d{2})"],
+  ["DD", "(\\d{2})"],
+  ["HH", "(\\d{2})"],
+  ["mm", "(\\d{2})"],
+  ["ss", "(\\d{2})"],
+  ["M", "(\\d{1,2})"],
+  ["D", "(\\d{1,2})"],
+  ["H", "(\\d{1,2})"],
+];
+
+const dateFormatCache = new Map<
+  string,
+  { pattern: RegExp; tokens: string[] }
+>();
+
+function compileDateFormat(format: string): {
+  pattern: RegExp;
+  tokens: string[];
+} {
+  const cached = dateFormatCache.get(format);
+  if (cached) return cached;
+
+  const tokens: string[] = [];
+  let source = "";
+  let i = 0;
+  while (i < format.length) {
+    const match = DATE_TOKENS.find(([token]) => format.startsWith(token, i));
+    if (match) {
+      tokens.push(match[0]);
+      source += match[1];
+      i += match[0].length;
+    } else {
+      source += format[i].replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      i++;
+    }
+  }
+
+  const compiled = { pattern: new RegExp(`^${source}$`), tokens };
+  dateFormatCache.set(format, compiled);
+  return compiled;
+}
+
+/**
+ * A parsed date or timestamp: the calendar date as written, and the instant
+ * it stands for
+ */
+interface ParsedDate {
+  day: string; // YYYY-MM-DD
+  instant: Date;
+}
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+  offsetMinutes: number; // ahead of UTC; values without an offset are UTC
+}
+
+function parseDate(column: Column, value: string): ParsedDate {
+  const format = column.config?.dateFormat;
+  const date = format ? parseWithFormat(format, value) : parseIso(value);
+
+  if (!date) {
+    throw new CoercionError(
+      column,
+      value,
+      `Invalid ${column.type}` +
+        ` (expected ${format ? `format ${format}` : "an ISO 8601 date"})`
+    );
+  }
+  return date;
+}
+
+function parseWithFormat(format: string, value: string): ParsedDate | null {
+  const { pattern, tokens } = compileDateFormat(format);
+  const match = value.match(pattern);
+  if (!match) return null;
+
+  const parts: Record<string, number> = {};
+  tokens.forEach((token, index) => {
+    // A fraction of a second, so ".5" is 500ms as in ISO values
+    const digits =
+      token === "SSS" ? match[index + 1].padEnd(3, "0") : match[index + 1];
+    parts[token[0]] = Number(digits);
+    if (token === "YY") parts.Y = 2000 + parts.Y;
+  });
+
+  return toParsedDate({
+    year: parts.Y ?? 1970,
+    month: parts.M ?? 1,
+    day: parts.D ?? 1,
+    hour: parts.H ?? 0,
+    minute: parts.m ?? 0,
+    second: parts.s ?? 0,
+    millisecond: parts.S ?? 0,
+    offsetMinutes: 0,
+  });
+}
+
+// YYYY-MM-DD, optionally followed by a time (after "T" or a space) with
+// optional seconds, fraction and UTC offset
+const ISO_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d+))?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+function parseIso(value: string): ParsedDate | null {
+  const match = value.match(ISO_PATTERN);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, fraction, zone] = match;
+  let offsetMinutes = 0;
+  if (zone && zone !== "Z") {
+    const hours = Number(zone.slice(1, 3));
+    const minutes = Number(zone.slice(-2));
+    if (hours > 23 || minutes > 59) return null;
+    offsetMinutes = (zone[0] === "-" ? -1 : 1) * (hours * 60 + minutes);
+  }
+
+  return toParsedDate({
+    year: Number(year),
+    month: Number(month),
+    day: Number(day),
+    hour: Number(hour ?? 0),
+    minute: Number(minute ?? 0),
+    second: Number(second ?? 0),
+    millisecond: Number((fraction ?? "").slice(0, 3).padEnd(3, "0")),
+    offsetMinutes,
+  });
+}
+
+function toParsedDate(parts: DateParts): ParsedDate | null {
+  // The fields as written, read as UTC so they do not depend on the
+  // server's time zone
+  const written = new Date(
+    Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+      parts.millisecond
+    )
+  );
+
+  // Reject values Date.UTC silently rolls over (e.g. 31/02)
+  if (
+    written.getUTCFullYear() !== parts.year ||
+    written.getUTCMonth() !== parts.month - 1 ||
+    written.getUTCDate() !== parts.day ||
+    parts.hour > 23 ||
+    parts.minute > 59 ||
+    parts.second > 59
+  ) {
+    return null;
+  }
+
+  return {
+    day: written.toISOString().slice(0, 10),
+    instant: new Date(written.getTime() - parts.offsetMinutes * 60_000),
+  };
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function parseEmail(column: Column, value: string): string {
+  if (!EMAIL_PATTERN.test(value)) {
+    throw new CoercionError(column, value, "Invalid email");
+  }
+  return value;
+}
+
+function parseUrl(column: Column, value: string): string {
+  try {
+    const url = new URL(value);
+    if (url.protocol === "http:" || url.protocol === "https:") {
+      return value;
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new CoercionError(column, value, "Invalid URL");
+}
@@ -0,0 +1,212 @@
+import { Readable } from "stream";
+import { CsvOptions, SourceEncoding, stripBom } from "./types";
+
+/**
+ * Fully resolved way of reading a CSV file, persisted on the checkpoint so a
+ * resumed job reads the file exactly like its first run did
+ */
+export interface CsvFormat {
+  encoding: SourceEncoding;
+  delimiter: string;
+  quote: string;
+  escape: string;
+}
+
+/**
+ * A source stream decoded to UTF-8 for csv-parser
+ */
+export interface CsvSource {
+  stream: Readable; // UTF-8 without BOM
+  format: CsvFormat;
+  bomLength: number; // bytes of UTF-8 BOM skipped at the start of the source
+}
+
+const DEFAULT_FORMAT: CsvFormat = {
+  encoding: "utf-8",
+  delimiter: ",",
+  quote: '"',
+  escape: '"',
+};
+
+// Bytes sniffed from the start of the file for encoding and delimiter detection
+const DETECTION_SAMPLE_BYTES = 64 * 1024;
+const DELIMITER_CANDIDATES = [",", ";", "\t", "|"];
+// Records inspected when detecting the delimiter
+const DETECTION_SAMPLE_RECORDS = 20;
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+
+/**
+ * Resolve the format of a CSV source from its options, sniffing the first
+ * bytes for anything left to auto-detection, and decode it to UTF-8
+ */
+export async function openCsvSource(
+  stream: Readable,
+  options: CsvOptions | undefined
+): Promise<CsvSource> {
+  let headLength = 0;
+  const iterator: AsyncIterator<Buffer> = stream[Symbol.asyncIterator]();
+  const headChunks: Buffer[] = [];
+  let exhausted = false;
+
+  while (headLength < DETECTION_SAMPLE_BYTES) {
+    const result = await iterator.next();
+    if (result.done) {
+      exhausted = true;
+      break;
+    }
+    headChunks.push(result.value);
+    headLength += result.value.length;
+  }
+
+  const head = Buffer.concat(headChunks);
+  const encoding = detectEncoding(head, options);
+  const bomLength =
+    encoding === "utf-8" && head.subarray(0, 3).equals(UTF8_BOM) ? 3 : 0;
+
+  const quote = options?.quote ?? DEFAULT_FORMAT.quote;
+  const format: CsvFormat = {
+    encoding,
+    delimiter:
+      options?.delimiter ??
+      (options?.autoDetect
+        ? detectDelimiter(
+            stripBom(new TextDecoder(encoding).decode(head)),
+            quote,
+            exhausted
+          )
+        : DEFAULT_FORMAT.delimiter),
+    quote,
+    escape: options?.escape ?? quote,
+  };
+
+  async function* remaining(): AsyncGenerator<Buffer> {
+    if (exhausted) return;
+    for (;;) {
+      const result = await iterator.next();
+      if (result.done) return;
+      yield result.value;
+    }
+  }
+
+  async function* decode(): AsyncGenerator<Buffer> {
+    // UTF-8 passes through untouched so parser offsets stay source offsets
+    if (encoding === "utf-8") {
+      yield head.subarray(bomLength);
+      yield* remaining();
+      return;
+    }
+
+    const decoder = new TextDecoder(encoding, { ignoreBOM: true });
+    yield Buffer.from(stripBom(decoder.decode(head, { stream: true })));
+    for await (const chunk of remaining()) {
+      yield Buffer.from(decoder.decode(chunk, { stream: true }));
+    }
+    yield Buffer.from(decoder.decode());
+  }
+
+  const decoded = Readable.from(decode(), { objectMode: false });
+  decoded.once("close", () => stream.destroy());
+
+  return { stream: decoded, format, bomLength };
+}
+
+/**
+ * Whether csv-parser byte offsets are also offsets in the source file, so a
+ * resumed job can start with a ranged read instead of re-reading the file
+ */
+export function hasSourceOffsets(format: CsvFormat): boolean {
+  return format.encoding === "utf-8";
+}
+
+/**
+ * Options that reproduce a resolved format without detecting anything
+ */
+export function toCsvOptions(format: CsvFormat): CsvOptions {
+  return { ...format, autoDetect: false };
+}
+
+/**
+ * A declared encoding wins, then a BOM; without either, auto-detection
+ * tells UTF-16 from UTF-8 from Windows-1252
+ */
+function detectEncoding(
+  head: Buffer,
+  options: CsvOptions | undefined
+): SourceEncoding {
+  if (options?.encoding) return options.encoding;
+
+  if (head.subarray(0, 3).equals(UTF8_BOM)) return "utf-8";
+  if (head[0] === 0xff && head[1] === 0xfe) return "utf-16le";
+  if (head[0] === 0xfe && head[1] === 0xff) return "utf-16be";
+
+  if (!options?.autoDetect || head.length < 2) return DEFAULT_FORMAT.encoding;
+
+  // Mostly-ASCII UTF-16 has a zero in every other byte
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < head.length; i++) {
+    if (head[i] !== 0) continue;
+    if (i % 2 === 0) evenZeros++;
+    else oddZeros++;
+  }
+  const pairs = head.length / 2;
+  if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return "utf-16le";
+  if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return "utf-16be";
+
+  try {
+    // stream: true tolerates a character cut off at the end of the sample
+    new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+/**
+ * Pick the candidate that appears the same, non-zero number of times
+ * (outside quotes) in the most sampled records
+ */
+function detectDelimiter(
+  sample: string,
+  quote: string,
+  complete: boolean
+): string {
+  const records: string[] = [];
+  let current = "";
+  let inQuotes = false;
+
+  for (const char of sample) {
+    if (char === quote) inQuotes = !inQuotes;
+    if (!inQuotes && (char === "\n" || char === "\r")) {
+      if (current !== "") records.push(current);
+      current = "";
+      if (records.length === DETECTION_SAMPLE_RECORDS) break;
+      continue;
+    }
+    if (!inQuotes) current += char;
+  }
+  // A trailing partial record is only trustworthy if the sample is the whole file
+  if (complete && current !== "" && records.length < DETECTION_SAMPLE_RECORDS) {
+    records.push(current);
+  }
+
+  let best = DEFAULT_FORMAT.delimiter;
+  let bestScore = 0;
+  let bestCount = 0;
+
+  for (const candidate of DELIMITER_CANDIDATES) {
+    const counts = records.map((record) => record.split(candidate).length - 1);
+    const expected = counts[0];
+    if (!expected) continue;
+
+    const score = counts.filter((count) => count === expected).length;
+    if (score > bestScore || (score === bestScore && expected > bestCount)) {
+      best = candidate;
+      bestScore = score;
+      bestCount = expected;
+    }
+  }
+
+  return best;
+}
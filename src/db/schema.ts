@@ -4,10 +4,16 @@ import {
   timestamp,
   boolean,
   integer,
+  bigint,
   serial,
   jsonb,
   decimal,
+  index,
+  primaryKey,
 } from 'drizzle-orm/pg-core';
+import type { CsvFormat } from '../csv-format';
+import type { HeaderMapping } from '../headers';
+import type { JobStatus } from '../types';
 
 export const user = pgTable('user', {
   id: text('id').primaryKey(),
@@ -309,6 +315,7 @@ export const lists = pgTable('lists', {
     .references(() => user.id, { onDelete: 'cascade' }),
   name: text('name').notNull(),
   jobId: text('job_id').unique(),
+  importStatus: text('import_status').notNull().default('ready'), // 'importing' | 'ready'
   createdAt: timestamp('created_at')
     .$defaultFn(() => /* @__PURE__ */ new Date())
     .notNull(),
@@ -327,25 +334,132 @@ export const listColumns = pgTable('list_columns', {
     .references(() => lists.id, { onDelete: 'cascade' }),
   name: text('name').notNull(), // Display name from CSV header
   key: text('key').notNull(), // Stable database key (slugified)
-  type: text('type').notNull(), // 'string' | 'jsonb'
+  type: text('type').notNull(), // ColumnType: 'string' | 'jsonb' | 'number' | 'integer' | 'boolean' | 'date' | 'timestamp' | 'email' | 'url'
   order: integer('order').notNull(), // Column order for display
-  config: jsonb('config'), // Additional column configuration
+  config: jsonb('config'), // Additional column configuration (ColumnConfig: separators, date format, transforms)
 });
 
 // List rows table - stores the actual data rows
-export const listRows = pgTable('list_rows', {
+export const listRows = pgTable(
+  'list_rows',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    listId: text('list_id')
+      .notNull()
+      .references(() => lists.id, { onDelete: 'cascade' }),
+    data: jsonb('data').notNull(), // JSON object with column keys -> values
+    jobId: text('job_id'), // Import job that inserted the row
+    createdAt: timestamp('created_at')
+      .$defaultFn(() => /* @__PURE__ */ new Date())
+      .notNull(),
+  },
+  (table) => [
+    // A job's rows are read back when it resumes (unique values) and deleted
+    // when an append is rolled back
+    index('list_rows_job_id_idx').on(table.jobId),
+    // Dedupe looks up stored rows by their key values with data @> ...
+    index('list_rows_data_idx').using('gin', table.data.op('jsonb_path_ops')),
+  ]
+);
+
+// List imports table - records appends to existing lists (jobId unique for idempotency)
+// List row snapshots table - data of existing rows before an append job's dedupe
+// overwrote or merged them, restored if the job is rolled back
+export const listRowSnapshots = pgTable(
+  'list_row_snapshots',
+  {
+    jobId: text('job_id').notNull(),
+    rowId: text('row_id')
+      .notNull()
+      .references(() => listRows.id, { onDelete: 'cascade' }),
+    data: jsonb('data').notNull(), // The row's data before the job first changed it
+  },
+  (table) => [primaryKey({ columns: [table.jobId, table.rowId] })]
+);
+
+export const listImports = pgTable('list_imports', {
   id: text('id')
     .primaryKey()
     .$defaultFn(() => crypto.randomUUID()),
   listId: text('list_id')
     .notNull()
     .references(() => lists.id, { onDelete: 'cascade' }),
-  data: jsonb('data').notNull(), // JSON object with column keys -> values
+  jobId: text('job_id').notNull().unique(),
   createdAt: timestamp('created_at')
     .$defaultFn(() => /* @__PURE__ */ new Date())
     .notNull(),
 });
 
+// Import checkpoints table - progress of chunked imports, committed with each chunk
+export const importCheckpoints = pgTable('import_checkpoints', {
+  jobId: text('job_id').primaryKey(),
+  listId: text('list_id')
+    .notNull()
+    .references(() => lists.id, { onDelete: 'cascade' }),
+  sourceEtag: text('source_etag'), // ETag of the R2 object the offsets refer to
+  workerId: text('worker_id'), // Lease holder running the job; only it can advance the checkpoint
+  csvFormat: jsonb('csv_format').$type<CsvFormat>(), // Delimiter, quotes and encoding the file was read with
+  headerMapping: jsonb('header_mapping').$type<HeaderMapping>(), // Cell index of each column, from the header row
+  byteOffset: bigint('byte_offset', { mode: 'number' }).notNull().default(0), // Start of the next unread row (in the decoded stream for non-UTF-8 files)
+  linesConsumed: integer('lines_consumed').notNull().default(0), // Source lines read, header included
+  processedRows: integer('processed_rows').notNull().default(0),
+  skippedRows: integer('skipped_rows').notNull().default(0),
+  insertedRows: integer('inserted_rows').notNull().default(0),
+  updatedRows: integer('updated_rows').notNull().default(0),
+  duplicateRows: integer('duplicate_rows').notNull().default(0),
+  completedAt: timestamp('completed_at'),
+  updatedAt: timestamp('updated_at')
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+// Import jobs table - job status when JOB_STATUS_BACKEND=postgres
+export const importJobs = pgTable('import_jobs', {
+  jobId: text('job_id').primaryKey(),
+  status: jsonb('status').$type<JobStatus>().notNull(), // JobStatus, merged with jsonb || on update
+  cancelRequestedAt: timestamp('cancel_requested_at'), // Set by POST /jobs/:jobId/cancel
+  leaseOwner: text('lease_owner'), // Worker holding the job's heartbeat lease
+  leaseExpiresAt: timestamp('lease_expires_at'), // Past while leaseOwner is set: the worker stalled
+  expiresAt: timestamp('expires_at'), // Null when status never expires
+  createdAt: timestamp('created_at')
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+  updatedAt: timestamp('updated_at')
+    .$defaultFn(() => /* @__PURE__ */ new Date())
+    .notNull(),
+});
+
+// Import history table - one durable record per import job, kept after status expires.
+// No foreign keys, so the record outlives the list (and user) it refers to.
+export const importHistory = pgTable(
+  'import_history',
+  {
+    id: text('id')
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    jobId: text('job_id').notNull().unique(),
+    userId: text('user_id').notNull(),
+    listId: text('list_id'), // Null when the job failed before its list was created
+    mode: text('mode').notNull(), // 'create' | 'append'
+    bucket: text('bucket').notNull(),
+    objectKey: text('object_key').notNull(),
+    fileSize: bigint('file_size', { mode: 'number' }), // Bytes, as stored (compressed size for .gz/.zip)
+    contentHash: text('content_hash'), // SHA-256 of the stored object, when a run read all of it
+    sourceEtag: text('source_etag'),
+    processedRows: integer('processed_rows').notNull().default(0),
+    skippedRows: integer('skipped_rows').notNull().default(0),
+    state: text('state').notNull(), // Final JobStatus state: 'succeeded' | 'failed' | 'cancelled'
+    error: text('error'),
+    attempts: integer('attempts').notNull().default(1), // Deliveries that ran the job to an end
+    startedAt: timestamp('started_at').notNull(), // Start of the last attempt
+    finishedAt: timestamp('finished_at').notNull(),
+    durationMs: integer('duration_ms').notNull(), // Of the last attempt
+  },
+  (table) => [index('import_history_user_started_idx').on(table.userId, table.startedAt)]
+);
+
 export const schema = {
   user,
   session,
@@ -366,6 +480,11 @@ export const schema = {
   lists,
   listColumns,
   listRows,
+  listRowSnapshots,
+  listImports,
+  importCheckpoints,
+  importJobs,
+  importHistory,
 };
 
 // Export inferred types for better type safety
@@ -383,3 +502,11 @@ export type ListColumn = typeof listColumns.$inferSelect;
 export type NewListColumn = typeof listColumns.$inferInsert;
 export type ListRow = typeof listRows.$inferSelect;
 export type NewListRow = typeof listRows.$inferInsert;
+export type ListRowSnapshot = typeof listRowSnapshots.$inferSelect;
+export type NewListRowSnapshot = typeof listRowSnapshots.$inferInsert;
+export type ListImport = typeof listImports.$inferSelect;
+export type NewListImport = typeof listImports.$inferInsert;
+export type ImportCheckpoint = typeof importCheckpoints.$inferSelect;
+export type NewImportCheckpoint = typeof importCheckpoints.$inferInsert;
+export type ImportHistory = typeof importHistory.$inferSelect;
+export type NewImportHistory = typeof importHistory.$inferInsert;
@@ -0,0 +1,135 @@
+import { pipeline, Readable } from "stream";
+import { createGunzip } from "zlib";
+import unzipper, { Entry } from "unzipper";
+import { SizeLimit } from "./streams";
+import { R2Config, WorkerMessage, MAX_DECOMPRESSED_SIZE } from "./types";
+
+export type Compression = "none" | "gzip" | "zip";
+
+/**
+ * Decompressed contents of an upload
+ */
+export interface DecompressedStream {
+  stream: Readable;
+  entry?: string; // path of the zip entry being read
+}
+
+type InputFormat = WorkerMessage["format"];
+
+// Extensions of the zip entry picked by default, by input format
+const ENTRY_EXTENSIONS: Record<InputFormat, string[]> = {
+  csv: [".csv"],
+  ndjson: [".ndjson", ".jsonl"],
+  json: [".json"],
+};
+
+const GZIP_CONTENT_TYPES = ["application/gzip", "application/x-gzip"];
+const ZIP_CONTENT_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+/**
+ * Raised when an upload inflates past MAX_DECOMPRESSED_SIZE
+ */
+export class DecompressedSizeError extends Error {
+  constructor(readonly limit: number) {
+    super(`Decompressed file exceeds limit of ${limit} bytes`);
+    this.name = "DecompressedSizeError";
+  }
+}
+
+/**
+ * Tell compressed uploads apart by content type, falling back to the key's
+ * extension (.csv.gz, .gz, .zip)
+ */
+export function detectCompression(r2: R2Config): Compression {
+  const contentType = r2.contentType?.split(";")[0].trim().toLowerCase();
+  if (contentType && GZIP_CONTENT_TYPES.includes(contentType)) return "gzip";
+  if (contentType && ZIP_CONTENT_TYPES.includes(contentType)) return "zip";
+
+  const key = r2.key.toLowerCase();
+  if (key.endsWith(".gz")) return "gzip";
+  if (key.endsWith(".zip")) return "zip";
+  return "none";
+}
+
+/**
+ * Decompress an upload as it streams. For zip files this reads up to the
+ * requested entry (by default the first file with an extension of the input
+ * format, e.g. .csv) and streams just that one.
+ */
+export async function decompressStream(
+  stream: Readable,
+  compression: Exclude<Compression, "none">,
+  format: InputFormat,
+  zipEntry?: string
+): Promise<DecompressedStream> {
+  // Guards against zip bombs
+  const limit = new SizeLimit(
+    MAX_DECOMPRESSED_SIZE,
+    () => new DecompressedSizeError(MAX_DECOMPRESSED_SIZE)
+  );
+  // Stop reading the object once the consumer is done with the contents
+  limit.once("close", () => stream.destroy());
+
+  if (compression === "gzip") {
+    pipeline(stream, createGunzip(), limit, () => {});
+    return { stream: limit };
+  }
+
+  const parser = unzipper.Parse();
+  pipeline(stream, parser, () => {});
+
+  return new Promise((resolve, reject) => {
+    const skipped: string[] = [];
+    let found = false;
+
+    parser.on("entry", (entry: Entry) => {
+      if (
+        found ||
+        entry.type !== "File" ||
+        !matchesEntry(entry, format, zipEntry)
+      ) {
+        if (entry.type === "File") skipped.push(entry.path);
+        entry.autodrain();
+        return;
+      }
+
+      found = true;
+      pipeline(entry, limit, () => {});
+      resolve({ stream: limit, entry: entry.path });
+    });
+
+    parser.on("error", (error: Error) => {
+      if (found) limit.destroy(error);
+      else reject(new Error(`Invalid zip file: ${error.message}`));
+    });
+
+    parser.on("close", () => {
+      if (found) return;
+      reject(
+        new Error(
+          zipEntry
+            ? `Entry "${zipEntry}" not found in zip file (entries: ${skipped.join(
+                ", "
+              )})`
+            : `No ${ENTRY_EXTENSIONS[format].join(
+                " or "
+              )} file found in zip file`
+        )
+      );
+    });
+  });
+}
+
+function matchesEntry(
+  entry: Entry,
+  format: InputFormat,
+  zipEntry: string | undefined
+): boolean {
+  if (zipEntry) return entry.path === zipEntry;
+  const path = entry.path.toLowerCase();
+  // macOS archives carry resource forks next to the real files
+  return (
+    ENTRY_EXTENSIONS[format].some((extension) => path.endsWith(extension)) &&
+    !entry.path.startsWith("__MACOSX/")
+  );
+}
@@ -0,0 +1,223 @@
+import { and, eq, or, sql } from "drizzle-orm";
+import { DbWsTransaction } from "./db/drizzle";
+import { listRows, listRowSnapshots } from "./db/schema";
+import { DedupeOptions, RowCounts } from "./types";
+
+type PendingRow = { listId: string; jobId: string; data: Record<string, any> };
+type StoredRow = {
+  id: string;
+  jobId: string | null;
+  data: Record<string, any>;
+};
+
+/**
+ * Applies a job's dedupe key and strategy to each batch of rows before it is
+ * written. Duplicates are resolved first within the batch, then against rows
+ * already stored in the list (including rows this job inserted in earlier
+ * batches, since they share the transaction).
+ */
+export class RowDeduplicator {
+  constructor(
+    private readonly listId: string,
+    private readonly jobId: string,
+    private readonly options: DedupeOptions,
+    private readonly insertBatch: (
+      tx: DbWsTransaction,
+      batch: PendingRow[]
+    ) => Promise<void>
+  ) {}
+
+  /**
+   * Write a batch and return how many of its rows were inserted, updated or
+   * counted as duplicates. A repeat of an earlier row of the file is a
+   * duplicate whatever the strategy: merged into that row, it is stored once.
+   */
+  async writeBatch(
+    tx: DbWsTransaction,
+    batch: PendingRow[]
+  ): Promise<RowCounts> {
+    const counts: RowCounts = {
+      insertedRows: 0,
+      updatedRows: 0,
+      duplicateRows: 0,
+    };
+
+    // Rows without any key value cannot be matched and are always inserted
+    const unkeyed: PendingRow[] = [];
+    const pending = new Map<string, PendingRow>();
+
+    for (const row of batch) {
+      const key = this.keyOf(row.data);
+      if (key === null) {
+        unkeyed.push(row);
+        continue;
+      }
+
+      const earlier = pending.get(key);
+      if (!earlier) {
+        pending.set(key, row);
+        continue;
+      }
+      if (this.options.strategy !== "skip") {
+        earlier.data = this.resolve(earlier.data, row.data);
+      }
+      counts.duplicateRows++;
+    }
+
+    const existing = await this.findExisting(tx, [...pending.keys()]);
+    const toInsert = [...unkeyed];
+    const updates: Array<{ id: string; data: Record<string, any> }> = [];
+
+    for (const [key, row] of pending) {
+      const matches = existing.get(key);
+      if (!matches) {
+        toInsert.push(row);
+        continue;
+      }
+
+      // Rows this job stored in earlier batches hold earlier rows of the file
+      if (
+        this.options.strategy === "skip" ||
+        matches.every((match) => match.jobId === row.jobId)
+      ) {
+        counts.duplicateRows++;
+      } else {
+        counts.updatedRows++;
+      }
+      if (this.options.strategy === "skip") continue;
+
+      for (const match of matches) {
+        updates.push({
+          id: match.id,
+          data: this.resolve(match.data, row.data),
+        });
+      }
+    }
+
+    await this.updateRows(tx, updates);
+    await this.insertBatch(tx, toInsert);
+    counts.insertedRows = toInsert.length;
+
+    return counts;
+  }
+
+  /**
+   * Replace the data of stored rows in one UPDATE ... FROM over the rows as
+   * a single jsonb parameter. Rows of other jobs are snapshotted first, once
+   * per job, so a rollback can restore them (see discardPartialImport).
+   */
+  private async updateRows(
+    tx: DbWsTransaction,
+    updates: Array<{ id: string; data: Record<string, any> }>
+  ): Promise<void> {
+    if (updates.length === 0) return;
+
+    // Every part of the statement sees the rows as they were before it
+    await tx.execute(sql`
+      with updates as (
+        select * from jsonb_to_recordset(${JSON.stringify(updates)}::jsonb)
+          as updates(id text, data jsonb)
+      ), snapshots as (
+        insert into ${listRowSnapshots} (job_id, row_id, data)
+        select ${this.jobId}, ${listRows.id}, ${listRows.data}
+        from ${listRows} join updates on ${listRows.id} = updates.id
+        where ${listRows.jobId} is distinct from ${this.jobId}
+        on conflict do nothing
+      )
+      update ${listRows}
+      set data = updates.data
+      from updates
+      where ${listRows.id} = updates.id
+    `);
+  }
+
+  /**
+   * Stable string form of a row's dedupe key, or null when every key value is empty
+   */
+  private keyOf(data: Record<string, any>): string | null {
+    const values = this.options.keys.map((key) => data[key] ?? null);
+    return values.every((value) => value === null)
+      ? null
+      : JSON.stringify(values);
+  }
+
+  /**
+   * Combine a stored row with an incoming duplicate according to the strategy
+   */
+  private resolve(
+    current: Record<string, any>,
+    incoming: Record<string, any>
+  ): Record<string, any> {
+    if (this.options.strategy === "overwrite") {
+      return incoming;
+    }
+
+    // merge: incoming values win, but empty cells don't erase stored values
+    const merged = { ...current };
+    for (const [key, value] of Object.entries(incoming)) {
+      if (value !== null && value !== undefined) {
+        merged[key] = value;
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Load rows of the list whose dedupe key matches one of the given keys
+   */
+  private async findExisting(
+    tx: DbWsTransaction,
+    keys: string[]
+  ): Promise<Map<string, StoredRow[]>> {
+    const found = new Map<string, StoredRow[]>();
+    if (keys.length === 0) return found;
+
+    // Rows containing a key's non-empty values, found with the GIN index on
+    // data; the key expression then drops those whose empty values differ
+    const containments = keys.map((key) => {
+      const values: unknown[] = JSON.parse(key);
+      return JSON.stringify(
+        Object.fromEntries(
+          this.options.keys
+            .map((name, i) => [name, values[i]])
+            .filter(([, value]) => value !== null)
+        )
+      );
+    });
+
+    // Same shape as keyOf(): a JSON array of the key values, in key order
+    const keyExpression = sql`jsonb_build_array(${sql.join(
+      this.options.keys.map((key) => sql`${listRows.data} -> ${key}::text`),
+      sql`, `
+    )})`;
+
+    const rows = await tx
+      .select({ id: listRows.id, jobId: listRows.jobId, data: listRows.data })
+      .from(listRows)
+      .where(
+        and(
+          eq(listRows.listId, this.listId),
+          or(
+            ...containments.map(
+              (containment) => sql`${listRows.data} @> ${containment}::jsonb`
+            )
+          ),
+          sql`${keyExpression} in (${sql.join(
+            keys.map((key) => sql`${key}::jsonb`),
+            sql`, `
+          )})`
+        )
+      );
+
+    for (const row of rows) {
+      const data = row.data as Record<string, any>;
+      const key = this.keyOf(data);
+      if (key === null) continue;
+      const matches = found.get(key) ?? [];
+      matches.push({ id: row.id, jobId: row.jobId, data });
+      found.set(key, matches);
+    }
+
+    return found;
+  }
+}
@@ -0,0 +1,114 @@
+import csv from "csv-parser";
+
+/**
+ * A row that was skipped because one of its cells could not be imported
+ */
+export interface RowError {
+  line: number; // 1-based line in the source file (the header row is line 1)
+  column: string;
+  reason: string;
+  row: Record<string, unknown>; // original cell values keyed by column name
+}
+
+/**
+ * Collects skipped rows during a tolerant import and renders them as a CSV
+ * that users can fix and re-upload. The report repeats the original columns
+ * after the line/column/reason fields so the fixed file imports as-is once
+ * those three leading columns are removed.
+ */
+export class ErrorReport {
+  readonly errors: RowError[] = [];
+  private savedSize = 0;
+
+  constructor(private readonly columnNames: string[]) {}
+
+  /**
+   * Reload the rows a previous run of the job skipped, up to the line its
+   * checkpoint reached. Rows after that line will be read (and skipped) again.
+   */
+  static async restore(
+    columnNames: string[],
+    reportStream: NodeJS.ReadableStream,
+    upToLine: number
+  ): Promise<ErrorReport> {
+    const report = new ErrorReport(columnNames);
+
+    for await (const entry of reportStream.pipe(csv())) {
+      const { line, column, reason, ...row } = entry as Record<string, string>;
+      if (Number(line) <= upToLine) {
+        report.add({ line: Number(line), column, reason, row });
+      }
+    }
+
+    report.markSaved();
+    return report;
+  }
+
+  add(error: RowError): void {
+    this.errors.push(error);
+  }
+
+  get size(): number {
+    return this.errors.length;
+  }
+
+  /**
+   * Whether rows were added since the report was last uploaded
+   */
+  get hasUnsavedErrors(): boolean {
+    return this.errors.length > this.savedSize;
+  }
+
+  markSaved(): void {
+    this.savedSize = this.errors.length;
+  }
+
+  toCsv(): string {
+    const lines = [
+      ["line", "column", "reason", ...this.columnNames]
+        .map(escapeCsvValue)
+        .join(","),
+    ];
+
+    for (const error of this.errors) {
+      const values = [
+        String(error.line),
+        error.column,
+        error.reason,
+        ...this.columnNames.map((name) => formatCell(error.row[name])),
+      ];
+      lines.push(values.map(escapeCsvValue).join(","));
+    }
+
+    return lines.join("\n") + "\n";
+  }
+}
+
+/**
+ * Raised when a tolerant import skips more rows than its maxErrors allows
+ */
+export class RowErrorLimitError extends Error {
+  constructor(maxErrors: number, line: number, lastError: string) {
+    super(
+      `Too many invalid rows: more than ${maxErrors} rows skipped (last at line ${line}: ${lastError})`
+    );
+    this.name = "RowErrorLimitError";
+  }
+}
+
+/**
+ * R2 key for the error report of a job
+ */
+export function errorReportKey(jobId: string): string {
+  return `import-errors/${jobId}.csv`;
+}
+
+// JSON input can carry numbers, booleans and nested values
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,223 @@
+/**
+ * Expressions of derived columns, e.g.
+ *
+ *   concat(first_name, " ", last_name)
+ *   coalesce(mobile, phone, "n/a")
+ *   upper(substring(country, 0, 2))
+ *
+ * Operands are column keys, quoted strings and whole numbers; everything
+ * evaluates to a string. Expressions are parsed into a tree and
+ * interpreted, never run as code.
+ */
+export type Expression =
+  | { kind: "literal"; value: string }
+  | { kind: "field"; key: string }
+  | { kind: "call"; name: FunctionName; args: Expression[] };
+
+type FunctionName = keyof typeof FUNCTIONS;
+
+// Argument count limits and implementation of each function
+const FUNCTIONS = {
+  // Values joined together, empty ones included as ""
+  concat: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    apply: (args: string[]) => args.join(""),
+  },
+  // The first non-empty value
+  coalesce: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    apply: (args: string[]) => args.find((arg) => arg !== "") ?? "",
+  },
+  // substring(value, start, length?), start counts from 0
+  substring: {
+    minArgs: 2,
+    maxArgs: 3,
+    apply: ([value, start, length]: string[]) => {
+      const from = Number(start);
+      if (!Number.isInteger(from) || from < 0) return "";
+      if (length === undefined) return value.slice(from);
+      const count = Number(length);
+      return Number.isInteger(count) && count >= 0
+        ? value.slice(from, from + count)
+        : "";
+    },
+  },
+  upper: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]: string[]) => value.toUpperCase(),
+  },
+  lower: {
+    minArgs: 1,
+    maxArgs: 1,
+    apply: ([value]: string[]) => value.toLowerCase(),
+  },
+  trim: { minArgs: 1, maxArgs: 1, apply: ([value]: string[]) => value.trim() },
+};
+
+/**
+ * Raised for an expression that does not parse
+ */
+export class ExpressionError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(`${message} at position ${position}`);
+    this.name = "ExpressionError";
+  }
+}
+
+type Token =
+  | { type: "name"; value: string; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "number"; value: string; position: number }
+  | { type: "(" | ")" | "," | "end"; position: number };
+
+/**
+ * Parse an expression, throwing an ExpressionError on a syntax error, an
+ * unknown function or a wrong number of arguments
+ */
+export function parseExpression(source: string): Expression {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const next = () => tokens[index++];
+  const peek = () => tokens[index];
+
+  function parseOperand(): Expression {
+    const token = next();
+    switch (token.type) {
+      case "string":
+      case "number":
+        return { kind: "literal", value: token.value };
+      case "name":
+        if (peek().type !== "(") {
+          return { kind: "field", key: token.value };
+        }
+        return parseCall(token.value, token.position);
+      default:
+        throw new ExpressionError("Expected a value", token.position);
+    }
+  }
+
+  function parseCall(name: string, position: number): Expression {
+    if (!Object.hasOwn(FUNCTIONS, name)) {
+      throw new ExpressionError(`Unknown function "${name}"`, position);
+    }
+    const fn = FUNCTIONS[name as FunctionName];
+
+    next(); // (
+    const args: Expression[] = [];
+    if (peek().type !== ")") {
+      args.push(parseOperand());
+      while (peek().type === ",") {
+        next();
+        args.push(parseOperand());
+      }
+    }
+    const close = next();
+    if (close.type !== ")") {
+      throw new ExpressionError('Expected "," or ")"', close.position);
+    }
+
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      throw new ExpressionError(
+        `Wrong number of arguments for ${name}()`,
+        position
+      );
+    }
+    return { kind: "call", name: name as FunctionName, args };
+  }
+
+  const expression = parseOperand();
+  const end = next();
+  if (end.type !== "end") {
+    throw new ExpressionError("Unexpected input", end.position);
+  }
+  return expression;
+}
+
+/**
+ * Column keys an expression reads
+ */
+export function expressionFields(expression: Expression): string[] {
+  switch (expression.kind) {
+    case "field":
+      return [expression.key];
+    case "call":
+      return expression.args.flatMap(expressionFields);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Evaluate an expression over a row's values by column key. Missing and
+ * null values read as "", numbers and booleans as their text, and nested
+ * values as JSON.
+ */
+export function evaluateExpression(
+  expression: Expression,
+  fields: Record<string, unknown>
+): string {
+  switch (expression.kind) {
+    case "literal":
+      return expression.value;
+    case "field":
+      return toText(fields[expression.key]);
+    case "call":
+      return FUNCTIONS[expression.name].apply(
+        expression.args.map((arg) => evaluateExpression(arg, fields))
+      );
+  }
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "string") return value;
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, position: i });
+      i++;
+    } else if (char === '"' || char === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== char) {
+        // A backslash escapes the next character, e.g. \" or \\
+        if (source[i] === "\\" && i + 1 < source.length) i++;
+        value += source[i++];
+      }
+      if (i >= source.length) {
+        throw new ExpressionError("Unterminated string", start);
+      }
+      i++;
+      tokens.push({ type: "string", value, position: start });
+    } else if (/[A-Za-z0-9_]/.test(char)) {
+      // Keys may start with a digit ("2024_sales"); all digits is a number
+      const match = source.slice(i).match(/^[A-Za-z0-9_]+/)![0];
+      tokens.push({
+        type: /^[0-9]+$/.test(match) ? "number" : "name",
+        value: match,
+        position: i,
+      });
+      i += match.length;
+    } else {
+      throw new ExpressionError(`Unexpected character "${char}"`, i);
+    }
+  }
+
+  tokens.push({ type: "end", position: source.length });
+  return tokens;
+}
@@ -0,0 +1,37 @@
+import { Client } from "@upstash/qstash";
+import { markInterrupted } from "./status";
+import { WorkerMessage } from "./types";
+
+// Publishing back to QStash needs a token and the public URL of /qstash/import
+const QSTASH_TOKEN = process.env.QSTASH_TOKEN;
+const QSTASH_IMPORT_URL = process.env.QSTASH_IMPORT_URL;
+
+// Required: a job acknowledged with 200 is not delivered again, so one that
+// shutdown stops would otherwise never be resumed
+if (!QSTASH_TOKEN || !QSTASH_IMPORT_URL) {
+  throw new Error(
+    "Missing QSTASH_TOKEN or QSTASH_IMPORT_URL environment variables (needed to re-publish interrupted imports)"
+  );
+}
+if (!URL.canParse(QSTASH_IMPORT_URL)) {
+  throw new Error(`QSTASH_IMPORT_URL is not a URL: "${QSTASH_IMPORT_URL}"`);
+}
+
+const client = new Client({ token: QSTASH_TOKEN });
+const importUrl = QSTASH_IMPORT_URL;
+
+/**
+ * Leave a job that shutdown stopped in the resumable interrupted state and
+ * publish it to QStash again so another worker picks it up
+ */
+export async function handOffImport(message: WorkerMessage): Promise<void> {
+  await markInterrupted(message.jobId);
+
+  const { messageId } = await client.publishJSON({
+    url: importUrl,
+    body: message,
+  });
+  console.log(
+    `Re-published interrupted job ${message.jobId} to QStash as ${messageId}`
+  );
+}
@@ -0,0 +1,156 @@
+import {
+  Column,
+  HeaderReport,
+  WorkerMessage,
+  dedupeHeaders,
+  isDerivedColumn,
+  isStoredColumn,
+  normalizeHeader,
+} from "./types";
+
+export type HeaderPolicy = WorkerMessage["onHeaderMismatch"];
+
+/**
+ * Which cell of a row each column is read from, and how the header row
+ * compared to the job's columns. Stored on the checkpoint, so a resumed
+ * read that starts past the header maps cells the same way.
+ */
+export interface HeaderMapping extends HeaderReport {
+  indexes: Record<string, number>; // column name -> cell index
+}
+
+/**
+ * Raised when the header row does not match the job's columns under its
+ * onHeaderMismatch policy
+ */
+export class HeaderMismatchError extends Error {
+  constructor(readonly mapping: HeaderMapping) {
+    const problems = [
+      mapping.missing.length > 0 &&
+        `missing ${mapping.missing.map((name) => `"${name}"`).join(", ")}`,
+      mapping.unexpected.length > 0 &&
+        `unexpected ${mapping.unexpected
+          .map((name) => `"${name}"`)
+          .join(", ")}`,
+    ].filter(Boolean);
+    super(`Header row does not match the columns: ${problems.join("; ")}`);
+    this.name = "HeaderMismatchError";
+  }
+}
+
+/**
+ * Cells are read by position when the file has no header row: the n-th
+ * column read from the file takes the n-th cell, unless it names an index
+ */
+export function positionalMapping(columns: Column[]): HeaderMapping {
+  return {
+    matchedBy: "position",
+    indexes: Object.fromEntries(
+      columns
+        .filter((col) => !isDerivedColumn(col))
+        .map((col, position) => [col.name, sourceIndex(col) ?? position])
+    ),
+    missing: [],
+    unexpected: [],
+  };
+}
+
+/**
+ * Match the file's header row to the job's columns by name (or the header
+ * named by their source), ignoring case, surrounding whitespace and a BOM.
+ * Empty and repeated headers are named the way the preview names them
+ * ("Column 3", "Email_2"). Columns with a source index take that cell, and
+ * derived columns are not read at all. With the "positional" policy,
+ * missing columns switch the mapping to positions.
+ */
+export function matchHeaders(
+  headerCells: string[],
+  columns: Column[],
+  policy: HeaderPolicy
+): HeaderMapping {
+  const headers = dedupeHeaders(headerCells);
+  const cellIndexes = new Map<string, number>();
+  headers.forEach((header, index) => {
+    if (!cellIndexes.has(headerKey(header))) {
+      cellIndexes.set(headerKey(header), index);
+    }
+  });
+
+  const indexes: Record<string, number> = {};
+  const missing: string[] = [];
+  for (const column of columns.filter((col) => !isDerivedColumn(col))) {
+    const index =
+      sourceIndex(column) ?? cellIndexes.get(headerKey(sourceHeader(column)));
+    if (index !== undefined) {
+      indexes[column.name] = index;
+    } else if (isStoredColumn(column)) {
+      // A skipped column only feeds expressions, which read it as empty
+      missing.push(column.name);
+    }
+  }
+
+  const readIndexes = new Set(Object.values(indexes));
+  const unexpected = headers.filter((_, index) => !readIndexes.has(index));
+
+  if (missing.length > 0 && policy === "positional") {
+    return { ...positionalMapping(columns), missing, unexpected };
+  }
+  return { matchedBy: "name", indexes, missing, unexpected };
+}
+
+/**
+ * Throw a HeaderMismatchError when the policy does not allow the
+ * differences between the header row and the columns
+ */
+export function checkHeaders(mapping: HeaderMapping, policy: HeaderPolicy) {
+  if (mapping.matchedBy === "position") return;
+  if (
+    mapping.missing.length > 0 ||
+    (mapping.unexpected.length > 0 && policy === "fail")
+  ) {
+    throw new HeaderMismatchError(mapping);
+  }
+}
+
+/**
+ * Whether a row has no data, every cell empty or whitespace. Blank rows are
+ * skipped by the preview and the import alike, so the header is the first
+ * row that is not blank.
+ */
+export function isBlankRow(cells: unknown[]): boolean {
+  return cells.every((cell) => cell == null || String(cell).trim() === "");
+}
+
+/**
+ * Key a row of cells (an array, or an object keyed by cell index) by column
+ * name. Cells past the end of a short row are empty.
+ */
+export function mapCells(
+  cells: Record<string, unknown> | unknown[],
+  mapping: HeaderMapping
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [name, index] of Object.entries(mapping.indexes)) {
+    row[name] = (cells as Record<number, unknown>)[index] ?? "";
+  }
+  return row;
+}
+
+function sourceIndex(column: Column): number | undefined {
+  return typeof column.source === "object" && "index" in column.source
+    ? column.source.index
+    : undefined;
+}
+
+/**
+ * The header or JSON field a column is read from
+ */
+export function sourceHeader(column: Column): string {
+  return typeof column.source === "object" && "header" in column.source
+    ? column.source.header
+    : column.name;
+}
+
+function headerKey(header: string): string {
+  return normalizeHeader(header).replace(/\s+/g, " ").toLowerCase();
+}
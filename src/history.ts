@@ -0,0 +1,118 @@
+import { and, desc, eq, gte, lt, sql, SQL } from "drizzle-orm";
+import { dbWs } from "./db/drizzle";
+import { importHistory, ImportHistory, NewImportHistory } from "./db/schema";
+import { ImportHistoryQuery, JobStatus, WorkerMessage } from "./types";
+
+/**
+ * What a run of processImport learned about its job, filled in as it goes
+ */
+export interface ImportRun {
+  startedAt: Date;
+  listId?: string;
+  fileSize?: number;
+  contentHash?: string | null; // null unless the run read the whole file
+  sourceEtag?: string;
+}
+
+/**
+ * A page of a user's import history
+ */
+export interface ImportHistoryPage {
+  imports: ImportHistory[];
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
+/**
+ * Record how an import ended. A redelivered job updates its record, keeping
+ * file details an earlier attempt saw (a resumed run reads only part of the
+ * file and cannot hash it). Never throws; the history is not worth failing
+ * an import over.
+ */
+export async function recordImport(
+  message: WorkerMessage,
+  status: JobStatus,
+  run: ImportRun
+): Promise<void> {
+  const finishedAt = new Date();
+  const record: NewImportHistory = {
+    jobId: message.jobId,
+    userId: message.userId,
+    listId: status.listId ?? run.listId ?? null,
+    mode: message.mode,
+    bucket: message.r2.bucket,
+    objectKey: message.r2.key,
+    fileSize: run.fileSize ?? null,
+    contentHash: run.contentHash ?? null,
+    sourceEtag: run.sourceEtag ?? null,
+    processedRows: status.processedRows ?? 0,
+    skippedRows: status.skippedRows ?? 0,
+    state: status.state,
+    // Only a failed run has an error; a retry's success clears the last one
+    error: status.state === "failed" ? status.error ?? null : null,
+    startedAt: run.startedAt,
+    finishedAt,
+    durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+  };
+
+  try {
+    await dbWs
+      .insert(importHistory)
+      .values(record)
+      .onConflictDoUpdate({
+        target: importHistory.jobId,
+        set: {
+          listId: sql`coalesce(excluded.list_id, ${importHistory.listId})`,
+          fileSize: sql`coalesce(excluded.file_size, ${importHistory.fileSize})`,
+          contentHash: sql`coalesce(excluded.content_hash, ${importHistory.contentHash})`,
+          sourceEtag: sql`coalesce(excluded.source_etag, ${importHistory.sourceEtag})`,
+          processedRows: record.processedRows,
+          skippedRows: record.skippedRows,
+          state: record.state,
+          error: record.error,
+          attempts: sql`${importHistory.attempts} + 1`,
+          startedAt: record.startedAt,
+          finishedAt: record.finishedAt,
+          durationMs: record.durationMs,
+        },
+      });
+  } catch (error) {
+    console.error(
+      `Failed to record import history for job ${message.jobId}:`,
+      error
+    );
+  }
+}
+
+/**
+ * A user's imports, newest first
+ */
+export async function listImportHistory(
+  userId: string,
+  query: ImportHistoryQuery
+): Promise<ImportHistoryPage> {
+  const conditions: SQL[] = [eq(importHistory.userId, userId)];
+  if (query.state) conditions.push(eq(importHistory.state, query.state));
+  if (query.from) {
+    conditions.push(gte(importHistory.startedAt, new Date(query.from)));
+  }
+  if (query.to)
+    conditions.push(lt(importHistory.startedAt, new Date(query.to)));
+
+  // One extra row tells whether there is another page
+  const rows = await dbWs
+    .select()
+    .from(importHistory)
+    .where(and(...conditions))
+    .orderBy(desc(importHistory.startedAt), desc(importHistory.id))
+    .limit(query.limit + 1)
+    .offset(query.offset);
+
+  return {
+    imports: rows.slice(0, query.limit),
+    limit: query.limit,
+    offset: query.offset,
+    hasMore: rows.length > query.limit,
+  };
+}
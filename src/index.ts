@@ -2,8 +2,22 @@ import "dotenv/config";
 import express, { type Request } from "express";
 import rawBody from "raw-body";
 import { Receiver } from "@upstash/qstash";
-import { WorkerMessageSchema } from "./types";
+import { timingSafeEqual } from "crypto";
+import {
+  WorkerMessageSchema,
+  PreviewRequestSchema,
+  ImportHistoryQuerySchema,
+  SHUTDOWN_ABORT_TIMEOUT_MS,
+  WEBHOOK_SHUTDOWN_WAIT_MS,
+} from "./types";
 import { processImport } from "./worker";
+import { previewObject } from "./preview";
+import { listImportHistory } from "./history";
+import { importScheduler } from "./scheduler";
+import { handOffImport } from "./handoff";
+import { getJobStatus, requestCancel, listStaleJobs } from "./status";
+import { STORAGE_ENV } from "./storage";
+import { waitForWebhooks } from "./webhook";
 
 const app = express();
 const port = process.env.PORT || 3000;
@@ -22,12 +36,60 @@ const qstashReceiver = new Receiver({
   nextSigningKey: QSTASH_NEXT_SIGNING_KEY,
 });
 
+// Shared secret for the job management routes (alternative to a QStash signature)
+const WORKER_API_SECRET = process.env.WORKER_API_SECRET;
+// Origin QStash delivers to (e.g. https://worker.example.com), when the worker
+// sits behind a proxy that changes the protocol or host it sees
+const WORKER_PUBLIC_URL = process.env.WORKER_PUBLIC_URL;
+
+/**
+ * Check that a job management request carries the shared secret as a bearer
+ * token, or a valid QStash signature over its body issued for its URL
+ */
+async function isAuthorizedRequest(req: any, body: string): Promise<boolean> {
+  const authorization = req.headers["authorization"] as string | undefined;
+  if (WORKER_API_SECRET && authorization?.startsWith("Bearer ")) {
+    const provided = Buffer.from(authorization.slice("Bearer ".length));
+    const expected = Buffer.from(WORKER_API_SECRET);
+    return (
+      provided.length === expected.length && timingSafeEqual(provided, expected)
+    );
+  }
+
+  const signature = req.headers["upstash-signature"] as string | undefined;
+  if (!signature) return false;
+
+  try {
+    // The URL claim ties the signature to this route: one issued for an
+    // empty body would otherwise authorize every GET route, for any job or user
+    return await qstashReceiver.verify({
+      signature,
+      body,
+      url: requestUrl(req),
+    });
+  } catch (verifyError) {
+    console.error("QStash signature verification failed:", verifyError);
+    return false;
+  }
+}
+
+/**
+ * The URL a QStash-signed request was sent to, as signed into its URL claim
+ */
+function requestUrl(req: any): string {
+  const origin = WORKER_PUBLIC_URL
+    ? new URL(WORKER_PUBLIC_URL).origin
+    : `${req.protocol}://${req.get("host")}`;
+  return origin + req.originalUrl;
+}
+
 // Health check endpoint
 app.get("/health", (_req: Request, res: any) => {
   res.json({
     status: "ok",
     timestamp: new Date().toISOString(),
     service: "csv-import-worker",
+    imports: importScheduler.stats(),
   });
 });
 
@@ -86,18 +148,192 @@ app.post("/qstash/import", async (req: any, res: any) => {
       r2Key: message.r2.key,
     });
 
+    // Run the import in the background, within the concurrency limits
+    const result = importScheduler.submit({
+      jobId: message.jobId,
+      userId: message.userId,
+      run: (signal) => processImport(message, signal),
+      handOff: () => handOffImport(message),
+    });
+
+    if (result === "closed") {
+      console.warn(`Shutting down, rejecting job ${message.jobId}`);
+      return res.status(503).json({
+        error: "Worker is shutting down, retry later",
+        jobId: message.jobId,
+      });
+    }
+
+    if (result === "rejected") {
+      // A non-2xx response makes QStash redeliver the job later
+      console.warn(`Import queue full, rejecting job ${message.jobId}`);
+      res.setHeader("Retry-After", "30");
+      return res.status(503).json({
+        error: "Import queue is full, retry later",
+        jobId: message.jobId,
+      });
+    }
+
     // Respond quickly to QStash (don't await processImport)
     res.status(200).json({
-      message: "Job received and queued for processing",
+      message:
+        result === "duplicate"
+          ? "Job is already running or queued"
+          : result === "queued"
+          ? "Job received and queued for processing"
+          : "Job received and started",
       jobId: message.jobId,
     });
+  } catch (error) {
+    console.error("Error handling QStash request:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Preview an uploaded object: headers, suggested columns and sample rows
+app.post("/preview", async (req: any, res: any) => {
+  try {
+    const body = await rawBody(req, {
+      length: req.headers["content-length"],
+      limit: "1mb",
+    });
 
-    // Process the import asynchronously
-    processImport(message).catch((error) => {
-      console.error(`Async processing failed for job ${message.jobId}:`, error);
+    if (!(await isAuthorizedRequest(req, body.toString("utf-8")))) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    let request;
+    try {
+      request = PreviewRequestSchema.parse(JSON.parse(body.toString("utf-8")));
+    } catch (parseError) {
+      return res.status(400).json({
+        error: "Invalid payload",
+        details:
+          parseError instanceof Error
+            ? parseError.message
+            : "Unknown parsing error",
+      });
+    }
+
+    res.json(await previewObject(request));
+  } catch (error) {
+    console.error("Error handling preview request:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : "Unknown error",
     });
+  }
+});
+
+// Jobs whose worker stopped heartbeating, for alerting; registered before
+// /jobs/:jobId so "stale" is not taken for a job id
+app.get("/jobs/stale", async (req: any, res: any) => {
+  try {
+    if (!(await isAuthorizedRequest(req, ""))) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    res.json({ jobs: await listStaleJobs() });
   } catch (error) {
-    console.error("Error handling QStash request:", error);
+    console.error("Error handling stale jobs request:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Job status with progress (percent complete, throughput, ETA)
+app.get("/jobs/:jobId", async (req: any, res: any) => {
+  try {
+    if (!(await isAuthorizedRequest(req, ""))) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const status = await getJobStatus(req.params.jobId);
+    if (!status) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    res.json(status);
+  } catch (error) {
+    console.error("Error handling job status request:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// Cancel a queued or running import job
+app.post("/jobs/:jobId/cancel", async (req: any, res: any) => {
+  try {
+    const body = await rawBody(req, {
+      length: req.headers["content-length"],
+      limit: "1mb",
+    });
+
+    if (!(await isAuthorizedRequest(req, body.toString("utf-8")))) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    const { jobId } = req.params;
+    const status = await getJobStatus(jobId);
+
+    if (
+      status?.state === "succeeded" ||
+      status?.state === "failed" ||
+      status?.state === "cancelled"
+    ) {
+      return res.status(409).json({
+        error: "Job already finished",
+        jobId,
+        state: status.state,
+      });
+    }
+
+    // The worker checks the flag between batches and rolls the import back
+    await requestCancel(jobId);
+
+    res.status(202).json({
+      message: "Cancellation requested",
+      jobId,
+    });
+  } catch (error) {
+    console.error("Error handling cancel request:", error);
+    res.status(500).json({
+      error: "Internal server error",
+      details: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+});
+
+// A user's import history, newest first, filtered by state and start date
+app.get("/users/:userId/imports", async (req: any, res: any) => {
+  try {
+    if (!(await isAuthorizedRequest(req, ""))) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+
+    let query;
+    try {
+      query = ImportHistoryQuerySchema.parse(req.query);
+    } catch (parseError) {
+      return res.status(400).json({
+        error: "Invalid query",
+        details:
+          parseError instanceof Error
+            ? parseError.message
+            : "Unknown parsing error",
+      });
+    }
+
+    res.json(await listImportHistory(req.params.userId, query));
+  } catch (error) {
+    console.error("Error handling import history request:", error);
     res.status(500).json({
       error: "Internal server error",
       details: error instanceof Error ? error.message : "Unknown error",
@@ -118,29 +354,17 @@ const errorHandler = (error: any, _req: any, res: any, next: any) => {
 app.use(errorHandler);
 
 // Start server
-app.listen(port, () => {
+const server = app.listen(port, () => {
   console.log(`CSV Import Worker running on port ${port}`);
   console.log("Environment check:");
   console.log(
     "- DATABASE_URL:",
     process.env.DATABASE_URL ? "✓ Set" : "✗ Missing"
   );
-  console.log(
-    "- R2_ACCOUNT_ID:",
-    process.env.R2_ACCOUNT_ID ? "✓ Set" : "✗ Missing"
-  );
-  console.log(
-    "- R2_ACCESS_KEY_ID:",
-    process.env.R2_ACCESS_KEY_ID ? "✓ Set" : "✗ Missing"
-  );
-  console.log(
-    "- R2_SECRET_ACCESS_KEY:",
-    process.env.R2_SECRET_ACCESS_KEY ? "✓ Set" : "✗ Missing"
-  );
-  console.log(
-    "- R2_BUCKET_NAME:",
-    process.env.R2_BUCKET_NAME ? "✓ Set" : "✗ Missing"
-  );
+  console.log("- STORAGE_BACKEND:", process.env.STORAGE_BACKEND || "r2");
+  for (const name of STORAGE_ENV[process.env.STORAGE_BACKEND || "r2"] ?? []) {
+    console.log(`- ${name}:`, process.env[name] ? "✓ Set" : "✗ Missing");
+  }
   console.log(
     "- QSTASH_CURRENT_SIGNING_KEY:",
     QSTASH_CURRENT_SIGNING_KEY ? "✓ Set" : "✗ Missing"
@@ -150,12 +374,30 @@ app.listen(port, () => {
     QSTASH_NEXT_SIGNING_KEY ? "✓ Set" : "✗ Missing"
   );
   console.log(
-    "- UPSTASH_REDIS_REST_URL:",
-    process.env.UPSTASH_REDIS_REST_URL ? "✓ Set" : "✗ Missing"
+    "- QSTASH_TOKEN:",
+    process.env.QSTASH_TOKEN ? "✓ Set" : "✗ Missing"
+  );
+  console.log(
+    "- QSTASH_IMPORT_URL:",
+    process.env.QSTASH_IMPORT_URL ? "✓ Set" : "✗ Missing"
+  );
+  console.log(
+    "- JOB_STATUS_BACKEND:",
+    process.env.JOB_STATUS_BACKEND || "upstash"
   );
+  if ((process.env.JOB_STATUS_BACKEND || "upstash") === "upstash") {
+    console.log(
+      "- UPSTASH_REDIS_REST_URL:",
+      process.env.UPSTASH_REDIS_REST_URL ? "✓ Set" : "✗ Missing"
+    );
+    console.log(
+      "- UPSTASH_REDIS_REST_TOKEN:",
+      process.env.UPSTASH_REDIS_REST_TOKEN ? "✓ Set" : "✗ Missing"
+    );
+  }
   console.log(
-    "- UPSTASH_REDIS_REST_TOKEN:",
-    process.env.UPSTASH_REDIS_REST_TOKEN ? "✓ Set" : "✗ Missing"
+    "- WORKER_API_SECRET:",
+    WORKER_API_SECRET ? "✓ Set" : "✗ Missing"
   );
   console.log(
     "- DELETE_R2_AFTER_IMPORT:",
@@ -163,13 +405,38 @@ app.listen(port, () => {
   );
 });
 
-// Graceful shutdown
-process.on("SIGTERM", () => {
-  console.log("Received SIGTERM, shutting down gracefully");
-  process.exit(0);
-});
+// Graceful shutdown: stop taking imports, give running ones the grace period
+// to finish, then abort the rest, leaving them interrupted and resumable. The
+// grace period is what the budget leaves after the abort and webhook waits,
+// so the whole shutdown ends before the platform kills the process.
+const SHUTDOWN_TIMEOUT_MS = Number(process.env.SHUTDOWN_TIMEOUT_MS) || 25000;
+const SHUTDOWN_GRACE_PERIOD_MS = Math.max(
+  0,
+  SHUTDOWN_TIMEOUT_MS - SHUTDOWN_ABORT_TIMEOUT_MS - WEBHOOK_SHUTDOWN_WAIT_MS
+);
+let shuttingDown = false;
+
+async function shutdown(signal: string) {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  const deadline = Date.now() + SHUTDOWN_TIMEOUT_MS;
+  console.log(`Received ${signal}, shutting down gracefully`, {
+    timeoutMs: SHUTDOWN_TIMEOUT_MS,
+    gracePeriodMs: SHUTDOWN_GRACE_PERIOD_MS,
+    imports: importScheduler.stats(),
+  });
 
-process.on("SIGINT", () => {
-  console.log("Received SIGINT, shutting down gracefully");
+  // Stop accepting connections; requests on open ones get a 503 from the scheduler
+  server.close();
+  await importScheduler.shutdown(
+    SHUTDOWN_GRACE_PERIOD_MS,
+    SHUTDOWN_ABORT_TIMEOUT_MS
+  );
+  // Webhooks of jobs that finished are delivered in the background; they get
+  // whatever the imports left of the budget
+  await waitForWebhooks(Math.max(0, deadline - Date.now()));
   process.exit(0);
-});
+}
+
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
+process.on("SIGINT", () => void shutdown("SIGINT"));
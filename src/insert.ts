@@ -0,0 +1,88 @@
+import { sql } from "drizzle-orm";
+import { DbWsTransaction } from "./db/drizzle";
+import { listRows } from "./db/schema";
+import { COMMIT_CHUNK_SIZE } from "./types";
+
+type PendingRow = { listId: string; jobId: string; data: Record<string, any> };
+
+/**
+ * How rows are written: "bulk" sends a batch as one JSON array parameter and
+ * unnests it server-side, "values" is a regular multi-row INSERT ... VALUES
+ */
+export type InsertMethod = "bulk" | "values";
+
+// Postgres errors that mean the bulk statement cannot work on this database
+// at all (undefined function, feature not supported, program limit exceeded)
+const UNSUPPORTED_ERROR_CODES = ["42883", "0A000", "54000"];
+
+export const INSERT_METHOD: InsertMethod =
+  process.env.INSERT_METHOD === "values" ? "values" : "bulk";
+
+/**
+ * Rows per insert statement, from INSERT_BATCH_SIZE. By default a bulk insert
+ * takes a whole committed chunk; VALUES inserts stay at 500 rows to keep the
+ * statement's parameter count reasonable.
+ */
+export const INSERT_BATCH_SIZE = batchSizeFromEnv(
+  INSERT_METHOD === "bulk" ? COMMIT_CHUNK_SIZE : 500
+);
+
+// Set once the bulk path failed in a way that will not change
+let bulkUnsupported = false;
+
+/**
+ * Insert a batch of rows into list_rows. A bulk insert the database does not
+ * support is retried with VALUES (inside a savepoint, so the transaction
+ * survives the failure); any other error is thrown.
+ */
+export async function insertRows(
+  tx: DbWsTransaction,
+  batch: PendingRow[],
+  method: InsertMethod = INSERT_METHOD
+): Promise<void> {
+  if (batch.length === 0) return;
+
+  if (method === "bulk" && !bulkUnsupported) {
+    try {
+      await tx.transaction((savepoint) => insertUnnest(savepoint, batch));
+      return;
+    } catch (error: any) {
+      const code = error?.code ?? error?.cause?.code;
+      if (!UNSUPPORTED_ERROR_CODES.includes(code)) {
+        throw error;
+      }
+      bulkUnsupported = true;
+      console.warn(
+        `Bulk insert of ${batch.length} rows failed, falling back to VALUES:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  await tx.insert(listRows).values(batch);
+}
+
+/**
+ * One INSERT ... SELECT over the batch's data as a single jsonb parameter.
+ * Ids and timestamps are generated by Postgres instead of per row in JS.
+ * Every row of a batch belongs to the same list and job.
+ */
+async function insertUnnest(
+  tx: DbWsTransaction,
+  batch: PendingRow[]
+): Promise<void> {
+  const { listId, jobId } = batch[0];
+  const data = JSON.stringify(batch.map((row) => row.data));
+
+  await tx.execute(sql`
+    insert into ${listRows} (id, list_id, data, job_id, created_at)
+    select gen_random_uuid()::text, ${listId}, rows.data, ${jobId}, clock_timestamp()
+    from jsonb_array_elements(${data}::jsonb) with ordinality as rows(data, position)
+    order by rows.position
+  `);
+}
+
+function batchSizeFromEnv(fallback: number): number {
+  const value = Number(process.env.INSERT_BATCH_SIZE);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
@@ -0,0 +1,126 @@
+import { pipeline, Readable } from "stream";
+import streamArray from "stream-json/streamers/stream-array.js";
+
+export type JsonFormat = "ndjson" | "json";
+
+/**
+ * A record of a JSON source. For NDJSON, blank lines come through as
+ * undefined records so record n is always line n, and byteOffset is where
+ * the line starts; JSON arrays have no usable offsets.
+ */
+export interface JsonRecord {
+  value: unknown;
+  byteOffset?: number;
+}
+
+/**
+ * Raised for input that is not a stream of JSON objects: malformed JSON, a
+ * non-object record, or a JSON document that is not an array
+ */
+export class JsonRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JsonRecordError";
+  }
+}
+
+const UTF8_BOM = Buffer.from([0xef, 0xbb, 0xbf]);
+const NEWLINE = 0x0a;
+
+/**
+ * Stream the records of an NDJSON file or a top-level JSON array, without
+ * holding more than one record in memory
+ */
+export function readJsonRecords(
+  stream: Readable,
+  format: JsonFormat
+): AsyncGenerator<JsonRecord> {
+  return format === "ndjson" ? readLines(stream) : readArray(stream);
+}
+
+/**
+ * Whether a record can be mapped onto columns by field name
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+async function* readLines(stream: Readable): AsyncGenerator<JsonRecord> {
+  let pending: Buffer = Buffer.alloc(0);
+  // Source offset of the start of `pending`
+  let offset = 0;
+  let line = 0;
+
+  const parseLine = (bytes: Buffer): unknown => {
+    line++;
+    // trim() also drops a BOM and the \r of CRLF line endings
+    const text = bytes.toString("utf8").trim();
+    if (text === "") return undefined;
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new JsonRecordError(
+        `Invalid JSON on line ${line}: ${(error as Error).message}`
+      );
+    }
+  };
+
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+
+    let start = 0;
+    let end: number;
+    while ((end = pending.indexOf(NEWLINE, start)) !== -1) {
+      const value = parseLine(pending.subarray(start, end));
+      yield { value, byteOffset: offset + start };
+      start = end + 1;
+    }
+
+    pending = pending.subarray(start);
+    offset += start;
+  }
+
+  // Last line without a trailing newline
+  if (pending.length > 0) {
+    const value = parseLine(pending);
+    yield { value, byteOffset: offset };
+  }
+}
+
+async function* readArray(stream: Readable): AsyncGenerator<JsonRecord> {
+  // Read errors pass through as-is; everything else is malformed input
+  let readError: unknown;
+
+  async function* withoutBom(): AsyncGenerator<Buffer> {
+    let first = true;
+    try {
+      for await (const chunk of stream as AsyncIterable<Buffer>) {
+        yield first && chunk.subarray(0, 3).equals(UTF8_BOM)
+          ? chunk.subarray(3)
+          : chunk;
+        first = false;
+      }
+    } catch (error) {
+      readError = error;
+      throw error;
+    }
+  }
+
+  const items = pipeline(
+    Readable.from(withoutBom(), { objectMode: false }),
+    streamArray.withParserAsStream(),
+    () => {}
+  );
+
+  try {
+    for await (const item of items as AsyncIterable<{ value: unknown }>) {
+      yield { value: item.value };
+    }
+  } catch (error) {
+    if (error === readError) throw error;
+    throw new JsonRecordError(
+      `Invalid JSON array: ${(error as Error).message}`
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import { getStatusStore } from "./status";
+import { LEASE_TTL_SECONDS, LEASE_RENEW_INTERVAL_MS } from "./types";
+
+// Identifies this process in leases, e.g. "srv-abc123:42:1f2e3d4c"
+export const WORKER_ID =
+  process.env.WORKER_ID ||
+  `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+/**
+ * Raised inside processImport once its lease was taken over by another worker
+ */
+export class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`Lease on job ${jobId} was taken over by another worker`);
+    this.name = "LeaseLostError";
+  }
+}
+
+/**
+ * This worker's lease on a job, renewed in the background until released.
+ * Failed renewals are retried; `lost` is set once another worker holds it.
+ */
+export class JobLeaseHeartbeat {
+  lost = false;
+  private readonly timer: NodeJS.Timeout;
+
+  private constructor(readonly jobId: string) {
+    this.timer = setInterval(() => void this.renew(), LEASE_RENEW_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Take the lease on a job, or return null while another worker holds a
+   * live one
+   */
+  static async acquire(jobId: string): Promise<JobLeaseHeartbeat | null> {
+    const taken = await getStatusStore().acquireLease(
+      jobId,
+      WORKER_ID,
+      LEASE_TTL_SECONDS
+    );
+    return taken ? new JobLeaseHeartbeat(jobId) : null;
+  }
+
+  /**
+   * Renew the lease now and tell whether this worker still holds it. A
+   * failed renewal counts as lost, since another worker may hold it.
+   */
+  async confirm(): Promise<boolean> {
+    if (this.lost) return false;
+    try {
+      this.lost = !(await getStatusStore().renewLease(
+        this.jobId,
+        WORKER_ID,
+        LEASE_TTL_SECONDS
+      ));
+      return !this.lost;
+    } catch (error) {
+      console.error(`Failed to confirm lease on job ${this.jobId}:`, error);
+      return false;
+    }
+  }
+
+  async release(): Promise<void> {
+    clearInterval(this.timer);
+    if (this.lost) return;
+
+    try {
+      await getStatusStore().releaseLease(this.jobId, WORKER_ID);
+    } catch (error) {
+      // The lease expires on its own
+      console.error(`Failed to release lease on job ${this.jobId}:`, error);
+    }
+  }
+
+  private async renew(): Promise<void> {
+    try {
+      if (
+        !(await getStatusStore().renewLease(
+          this.jobId,
+          WORKER_ID,
+          LEASE_TTL_SECONDS
+        ))
+      ) {
+        console.warn(`Lost lease on job ${this.jobId} to another worker`);
+        this.lost = true;
+        clearInterval(this.timer);
+      }
+    } catch (error) {
+      console.error(`Failed to renew lease on job ${this.jobId}:`, error);
+    }
+  }
+}
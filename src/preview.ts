@@ -0,0 +1,369 @@
+import csv from "csv-parser";
+import { pipeline, Readable } from "stream";
+import { getObjectStream } from "./storage";
+import { coerceValue } from "./coerce";
+import { openCsvSource, CsvFormat } from "./csv-format";
+import { detectCompression, decompressStream } from "./decompress";
+import { isXlsx, readSheetRows } from "./xlsx";
+import { ByteCounter } from "./streams";
+import {
+  readJsonRecords,
+  isJsonObject,
+  JsonFormat,
+  JsonRecordError,
+} from "./json-source";
+import { isBlankRow } from "./headers";
+import {
+  Column,
+  ColumnType,
+  PreviewRequest,
+  MAX_FILE_SIZE,
+  SAMPLE_ROWS,
+  dedupeHeaders,
+  slugify,
+} from "./types";
+
+export interface PreviewResult {
+  headers: string[]; // normalized, deduped header names (JSON field names as-is)
+  columns: Column[]; // suggested definitions for the EnqueuePayload
+  sampleRows: Record<string, string>[]; // keyed by header name
+  rowCountEstimate: number;
+  rowCountIsExact: boolean; // true when the whole file fit in the sample
+  totalBytes?: number;
+  format?: CsvFormat; // resolved parser options, to send back with the import
+  zipEntry?: string; // entry sampled from a .zip upload
+}
+
+// Types tried in order, most specific first; "string" is the fallback
+const INFERABLE_TYPES: ColumnType[] = [
+  "jsonb",
+  "boolean",
+  "integer",
+  "number",
+  "timestamp",
+  "date",
+  "email",
+  "url",
+];
+
+// Date.parse accepts almost anything, so inference only trusts ISO 8601
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_TIMESTAMP =
+  /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/;
+const BOOLEAN_WORDS = /^(true|false|yes|no)$/i;
+
+/**
+ * Read the first rows of an uploaded object, the same way the worker will
+ * during the import, and suggest column definitions for it
+ */
+export async function previewObject(
+  request: PreviewRequest
+): Promise<PreviewResult> {
+  const { r2, firstRowIsHeader, sampleRows } = request;
+  const { stream, contentLength } = await getObjectStream(
+    r2.bucket,
+    r2.key,
+    MAX_FILE_SIZE
+  );
+  const counter = new ByteCounter();
+  pipeline(stream, counter, () => {});
+
+  const compression = detectCompression(r2);
+  const decompressed =
+    compression === "none"
+      ? null
+      : await decompressStream(
+          counter,
+          compression,
+          request.format,
+          request.zipEntry
+        );
+  const input = decompressed?.stream ?? counter;
+  const limit = sampleRows + (firstRowIsHeader ? 1 : 0);
+
+  const source =
+    request.format === "csv" && !isXlsx(r2)
+      ? await openCsvSource(input, request.parser)
+      : null;
+  const csvSample = source
+    ? await readFirstRows(source.stream, source.format, limit)
+    : null;
+  const jsonSample =
+    request.format !== "csv"
+      ? await readFirstJsonRows(input, request.format, sampleRows)
+      : null;
+  const { rows, reachedEnd } =
+    csvSample ??
+    jsonSample ??
+    (await readFirstSheetRows(input, request.sheet, limit));
+
+  const hasHeader = !jsonSample && firstRowIsHeader;
+  const headerCells = hasHeader ? rows.shift() ?? [] : [];
+  const width = Math.max(headerCells.length, ...rows.map((row) => row.length));
+  // The import matches JSON fields by exact name, so they are not normalized
+  const headers =
+    jsonSample?.fields ??
+    dedupeHeaders(
+      Array.from({ length: width }, (_, i) =>
+        hasHeader ? headerCells[i] ?? "" : `Column ${i + 1}`
+      )
+    );
+
+  const keys = uniqueKeys(headers.map(slugify));
+  const columns: Column[] = headers.map((name, index) => ({
+    name,
+    key: keys[index],
+    type: inferColumnType(rows.map((row) => row[index] ?? "")),
+    order: index,
+  }));
+
+  let rowCountEstimate = rows.length;
+  if (!reachedEnd && contentLength && rows.length > 0) {
+    if (csvSample) {
+      // Extrapolate from the average size of the sampled data rows, scaled
+      // from decoded UTF-8 back to (compressed) object bytes
+      const { offsets, endOffset, bytesRead } = csvSample;
+      const dataStartOffset = firstRowIsHeader ? offsets[1] ?? endOffset : 0;
+      const objectBytesPerByte = bytesRead > 0 ? counter.bytes / bytesRead : 1;
+      const bytesPerRow =
+        ((endOffset - dataStartOffset) * objectBytesPerByte) / rows.length;
+      rowCountEstimate = Math.round(
+        (contentLength - dataStartOffset) / bytesPerRow
+      );
+    } else {
+      // Workbooks and JSON have no row offsets; a rough guess from the share
+      // of the object read so far
+      rowCountEstimate = Math.round(
+        (rows.length * contentLength) / Math.max(counter.bytes, 1)
+      );
+    }
+  }
+
+  return {
+    headers,
+    columns,
+    sampleRows: rows.map((row) =>
+      Object.fromEntries(headers.map((name, i) => [name, row[i] ?? ""]))
+    ),
+    rowCountEstimate,
+    rowCountIsExact: reachedEnd,
+    totalBytes: contentLength,
+    format: source?.format,
+    zipEntry: decompressed?.entry,
+  };
+}
+
+/**
+ * Infer the most specific column type that every sampled non-empty value
+ * coerces to
+ */
+export function inferColumnType(values: string[]): ColumnType {
+  const sample = values.filter((value) => value !== "").slice(0, SAMPLE_ROWS);
+  if (sample.length === 0) return "string";
+
+  return (
+    INFERABLE_TYPES.find((type) =>
+      sample.every((value) => matchesType(type, value))
+    ) ?? "string"
+  );
+}
+
+function matchesType(type: ColumnType, value: string): boolean {
+  switch (type) {
+    case "jsonb":
+      // Same rule as the client: proven by a value that parses to an object/array
+      return typeof tryCoerce(type, value) === "object";
+    case "boolean":
+      // 1/0 are left to integer
+      return BOOLEAN_WORDS.test(value);
+    case "date":
+      return ISO_DATE.test(value) && tryCoerce(type, value) !== undefined;
+    case "timestamp":
+      return ISO_TIMESTAMP.test(value) && tryCoerce(type, value) !== undefined;
+    case "number":
+    case "integer":
+      // Leading zeros (zip codes, phone numbers) are identifiers, not numbers
+      return (
+        !/^0\d/.test(value) &&
+        /^[+-]?[\d.,]+$/.test(value) &&
+        tryCoerce(type, value) !== undefined
+      );
+    default:
+      return tryCoerce(type, value) !== undefined;
+  }
+}
+
+function tryCoerce(type: ColumnType, value: string): unknown {
+  try {
+    return coerceValue({ name: "", key: "", type, order: 0 }, value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Suffix repeated keys with _2, _3, ... and fill in empty ones
+ */
+function uniqueKeys(keys: string[]): string[] {
+  const used = new Set<string>();
+
+  return keys.map((key, index) => {
+    const base = key || `column_${index + 1}`;
+    let unique = base;
+    for (let n = 2; used.has(unique); n++) {
+      unique = `${base}_${n}`;
+    }
+    used.add(unique);
+    return unique;
+  });
+}
+
+/**
+ * Read up to `limit` JSON records as rows of cell strings, one cell per
+ * field seen in the sample (in order of first appearance)
+ */
+async function readFirstJsonRows(
+  stream: Readable,
+  format: JsonFormat,
+  limit: number
+): Promise<{ fields: string[]; rows: string[][]; reachedEnd: boolean }> {
+  const records: Record<string, unknown>[] = [];
+  const fields = new Set<string>();
+  let reachedEnd = true;
+
+  try {
+    for await (const { value } of readJsonRecords(stream, format)) {
+      if (value === undefined) continue;
+      if (records.length === limit) {
+        reachedEnd = false;
+        break;
+      }
+      if (!isJsonObject(value)) {
+        throw new JsonRecordError(
+          `Record ${records.length + 1} is not a JSON object`
+        );
+      }
+      records.push(value);
+      Object.keys(value).forEach((field) => fields.add(field));
+    }
+  } finally {
+    stream.destroy();
+  }
+
+  // Nested values are rendered as JSON so inference suggests jsonb for them
+  const cell = (value: unknown) =>
+    value === null || value === undefined
+      ? ""
+      : typeof value === "string"
+      ? value.trim()
+      : JSON.stringify(value);
+
+  return {
+    fields: [...fields],
+    rows: records.map((record) => [...fields].map((f) => cell(record[f]))),
+    reachedEnd,
+  };
+}
+
+/**
+ * Read up to `limit` non-empty rows of a workbook sheet and stop reading
+ */
+async function readFirstSheetRows(
+  stream: Readable,
+  sheet: string | number | undefined,
+  limit: number
+): Promise<{ rows: string[][]; reachedEnd: boolean }> {
+  const rows: string[][] = [];
+  const cellRows = readSheetRows(stream, sheet);
+
+  try {
+    for await (const cells of cellRows) {
+      if (rows.length === limit) {
+        return { rows, reachedEnd: false };
+      }
+      // Skip completely empty rows, as the import does
+      if (isBlankRow(cells)) continue;
+      rows.push(cells.map((cell) => cell.trim()));
+    }
+    return { rows, reachedEnd: true };
+  } finally {
+    stream.destroy();
+  }
+}
+
+/**
+ * Parse up to `limit` non-empty rows (as arrays of trimmed cells) and stop reading
+ */
+function readFirstRows(
+  stream: Readable,
+  format: CsvFormat,
+  limit: number
+): Promise<{
+  rows: string[][];
+  offsets: number[]; // byte offset where each row starts
+  endOffset: number; // byte offset just past the last row read
+  bytesRead: number; // bytes the parser was fed
+  reachedEnd: boolean;
+}> {
+  return new Promise((resolve, reject) => {
+    const rows: string[][] = [];
+    const offsets: number[] = [];
+    let bytesRead = 0;
+    let done = false;
+
+    const parser = csv({
+      headers: false,
+      mapValues: ({ value }) =>
+        typeof value === "string" ? value.trim() : value,
+      outputByteOffset: true,
+      separator: format.delimiter,
+      quote: format.quote,
+      escape: format.escape,
+    });
+
+    const finish = (reachedEnd: boolean, endOffset: number) => {
+      if (done) return;
+      done = true;
+      stream.destroy();
+      parser.destroy();
+      resolve({ rows, offsets, endOffset, bytesRead, reachedEnd });
+    };
+
+    parser.on(
+      "data",
+      ({
+        row,
+        byteOffset,
+      }: {
+        row: Record<string, string>;
+        byteOffset: number;
+      }) => {
+        if (done) return;
+        if (rows.length === limit) {
+          // This row starts right after the last one read
+          finish(false, byteOffset);
+          return;
+        }
+
+        // Skip completely empty rows, as the import does
+        const cells = Object.values(row);
+        if (isBlankRow(cells)) return;
+
+        rows.push(cells);
+        offsets.push(byteOffset);
+      }
+    );
+    parser.on("end", () => finish(true, bytesRead));
+    parser.on("error", (error) => {
+      if (!done) reject(new Error(`CSV parsing error: ${error.message}`));
+    });
+    stream.on("error", (error) => {
+      if (!done) reject(error);
+    });
+
+    stream.on("data", (data: Buffer) => {
+      bytesRead += data.length;
+    });
+    stream.pipe(parser);
+  });
+}
@@ -0,0 +1,61 @@
+import { JobStatus } from "./types";
+
+export type TransferProgress = Pick<
+  JobStatus,
+  | "bytesRead"
+  | "totalBytes"
+  | "percentComplete"
+  | "rowsPerSecond"
+  | "estimatedFinishAt"
+>;
+
+/**
+ * Turns bytes consumed off the source stream into percent complete,
+ * throughput and an estimated finish time. Rates are measured over the
+ * current run only, so a resumed job does not count the work of its
+ * previous run as instantaneous.
+ */
+export class ProgressTracker {
+  private readonly startedAt = Date.now();
+
+  constructor(
+    private readonly totalBytes: number | undefined,
+    private readonly startOffset: number,
+    private readonly startRows: number
+  ) {}
+
+  /**
+   * @param bytesRead Absolute position in the source file
+   * @param processedRows Rows processed by the job so far, across runs
+   */
+  snapshot(bytesRead: number, processedRows: number): TransferProgress {
+    const elapsedSeconds = (Date.now() - this.startedAt) / 1000;
+    const progress: TransferProgress = {
+      bytesRead,
+      totalBytes: this.totalBytes,
+    };
+
+    if (elapsedSeconds > 0) {
+      progress.rowsPerSecond = Math.round(
+        (processedRows - this.startRows) / elapsedSeconds
+      );
+    }
+
+    if (this.totalBytes) {
+      progress.percentComplete = Math.min(
+        100,
+        Math.round((bytesRead / this.totalBytes) * 1000) / 10
+      );
+
+      const bytesPerSecond = (bytesRead - this.startOffset) / elapsedSeconds;
+      if (bytesPerSecond > 0) {
+        const remainingSeconds = (this.totalBytes - bytesRead) / bytesPerSecond;
+        progress.estimatedFinishAt = new Date(
+          Date.now() + Math.max(0, remainingSeconds) * 1000
+        ).toISOString();
+      }
+    }
+
+    return progress;
+  }
+}
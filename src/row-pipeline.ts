@@ -0,0 +1,73 @@
+import { Readable } from "stream";
+
+/**
+ * A row read from the source, keyed by column name. byteOffset is where the
+ * row starts in the (decoded) stream, for sources that emit it.
+ */
+export type SourceRow = { row: Record<string, unknown>; byteOffset?: number };
+
+/**
+ * Rows to commit together, and the source position a resumed read would
+ * start at once they are committed
+ */
+export interface RowChunk<T> {
+  rows: T[];
+  // Offset of the first row after the chunk; unset for the last chunk
+  byteOffset?: number;
+  linesConsumed: number;
+  // The last chunk, read up to the end of the source
+  completed: boolean;
+}
+
+export interface RowChunkOptions<T> {
+  // Source line before the first row read: the header's, or the
+  // checkpoint's line when a ranged read resumes past it
+  firstLine: number;
+  // Lines a re-read file already committed in an earlier run, dropped
+  replayedLines: number;
+  chunkSize: number;
+  // Turn a source row into the row to commit, or null to leave it out.
+  // Throwing stops the import.
+  mapRow: (source: SourceRow, line: number) => Promise<T | null>;
+}
+
+/**
+ * Read source rows one at a time and group them into chunks to commit.
+ *
+ * The source is only read while the caller asks for the next chunk, so no
+ * more than a chunk and the stream's own buffer are held in memory, chunks
+ * come out in source order, and nothing is read while one is committed. A
+ * read or parse error, a throw in mapRow, or the caller leaving its loop
+ * early destroys the source and ends the iteration.
+ */
+export async function* readRowChunks<T>(
+  rows: Readable,
+  { firstLine, replayedLines, chunkSize, mapRow }: RowChunkOptions<T>
+): AsyncGenerator<RowChunk<T>> {
+  let line = firstLine;
+  let chunk: T[] = [];
+
+  for await (const source of rows as AsyncIterable<SourceRow>) {
+    const rowLine = ++line;
+    if (rowLine <= replayedLines) continue;
+
+    // Hand over a full chunk before taking this row, whose offset is where
+    // a resumed read would start
+    if (chunk.length >= chunkSize) {
+      yield {
+        rows: chunk,
+        byteOffset: source.byteOffset ?? 0,
+        linesConsumed: rowLine - 1,
+        completed: false,
+      };
+      chunk = [];
+    }
+
+    const mapped = await mapRow(source, rowLine);
+    if (mapped !== null) {
+      chunk.push(mapped);
+    }
+  }
+
+  yield { rows: chunk, linesConsumed: line, completed: true };
+}
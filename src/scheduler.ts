@@ -0,0 +1,209 @@
+/**
+ * A job waiting for, or holding, a slot
+ */
+interface ScheduledJob {
+  jobId: string;
+  userId: string;
+  run: (signal: AbortSignal) => Promise<void>;
+  // Pass the job on to another worker when shutdown stops it: called for
+  // queued jobs that never started and running jobs that failed once aborted
+  handOff?: () => Promise<void>;
+}
+
+export interface SchedulerLimits {
+  maxConcurrent: number; // jobs running at once, across users
+  maxPerUser: number; // jobs of one user running at once
+  maxQueued: number; // jobs waiting for a slot before new ones are rejected
+}
+
+export interface SchedulerStats extends SchedulerLimits {
+  accepting: boolean; // false once shutdown has begun
+  active: number;
+  queued: number;
+  activeUsers: number;
+}
+
+export type SubmitResult =
+  | "started"
+  | "queued"
+  | "duplicate"
+  | "rejected"
+  | "closed";
+
+/**
+ * Runs imports in-process with a global and a per-user concurrency limit.
+ * Jobs over either limit wait in a bounded FIFO queue; when a slot frees up
+ * the oldest job whose user is under the per-user limit runs next, so one
+ * user's burst cannot hold back everyone else.
+ */
+export class ImportScheduler {
+  private readonly queue: ScheduledJob[] = [];
+  private readonly activeJobs = new Map<string, AbortController>();
+  private readonly activeByUser = new Map<string, number>();
+  private readonly idleWaiters: (() => void)[] = [];
+  private closed = false;
+
+  constructor(private readonly limits: SchedulerLimits) {}
+
+  /**
+   * Start a job now or queue it. "rejected" means the queue is full and the
+   * job should be redelivered later, "closed" that the scheduler is shutting
+   * down; "duplicate" means it is already running or queued.
+   */
+  submit(job: ScheduledJob): SubmitResult {
+    if (this.closed) {
+      return "closed";
+    }
+
+    if (
+      this.activeJobs.has(job.jobId) ||
+      this.queue.some((queued) => queued.jobId === job.jobId)
+    ) {
+      return "duplicate";
+    }
+
+    if (this.canStart(job.userId)) {
+      this.start(job);
+      return "started";
+    }
+
+    if (this.queue.length >= this.limits.maxQueued) {
+      return "rejected";
+    }
+
+    this.queue.push(job);
+    return "queued";
+  }
+
+  stats(): SchedulerStats {
+    return {
+      ...this.limits,
+      accepting: !this.closed,
+      active: this.activeJobs.size,
+      queued: this.queue.length,
+      activeUsers: this.activeByUser.size,
+    };
+  }
+
+  /**
+   * Stop taking jobs and hand off the queued ones, then give running jobs
+   * `gracePeriodMs` to finish. Jobs still running after that are aborted and
+   * get `abortTimeoutMs` to stop and hand themselves off.
+   */
+  async shutdown(gracePeriodMs: number, abortTimeoutMs: number): Promise<void> {
+    this.closed = true;
+
+    const queued = this.queue.splice(0);
+    await Promise.all(queued.map((job) => this.handOff(job)));
+
+    if (await this.waitForIdle(gracePeriodMs)) return;
+
+    console.warn(
+      `Aborting ${this.activeJobs.size} import(s) still running after the ${gracePeriodMs}ms grace period`
+    );
+    for (const controller of this.activeJobs.values()) {
+      controller.abort();
+    }
+
+    if (!(await this.waitForIdle(abortTimeoutMs))) {
+      console.error(
+        `${this.activeJobs.size} import(s) did not stop within ${abortTimeoutMs}ms of being aborted`
+      );
+    }
+  }
+
+  private canStart(userId: string): boolean {
+    return (
+      this.activeJobs.size < this.limits.maxConcurrent &&
+      (this.activeByUser.get(userId) ?? 0) < this.limits.maxPerUser
+    );
+  }
+
+  private start(job: ScheduledJob): void {
+    const controller = new AbortController();
+    this.activeJobs.set(job.jobId, controller);
+    this.activeByUser.set(
+      job.userId,
+      (this.activeByUser.get(job.userId) ?? 0) + 1
+    );
+
+    job
+      .run(controller.signal)
+      .catch(async (error) => {
+        if (controller.signal.aborted) {
+          await this.handOff(job);
+          return;
+        }
+        console.error(`Async processing failed for job ${job.jobId}:`, error);
+      })
+      .finally(() => {
+        this.activeJobs.delete(job.jobId);
+        const remaining = (this.activeByUser.get(job.userId) ?? 1) - 1;
+        if (remaining > 0) this.activeByUser.set(job.userId, remaining);
+        else this.activeByUser.delete(job.userId);
+
+        if (this.closed) {
+          if (this.activeJobs.size === 0) {
+            this.idleWaiters.splice(0).forEach((resolve) => resolve());
+          }
+        } else {
+          this.drain();
+        }
+      });
+  }
+
+  /**
+   * Start queued jobs, oldest first, while there are free slots
+   */
+  private drain(): void {
+    for (let i = 0; i < this.queue.length; ) {
+      if (this.activeJobs.size >= this.limits.maxConcurrent) return;
+
+      const job = this.queue[i];
+      if (this.canStart(job.userId)) {
+        this.queue.splice(i, 1);
+        this.start(job);
+      } else {
+        i++;
+      }
+    }
+  }
+
+  private async handOff(job: ScheduledJob): Promise<void> {
+    try {
+      await job.handOff?.();
+    } catch (error) {
+      console.error(`Failed to hand off job ${job.jobId}:`, error);
+    }
+  }
+
+  /**
+   * Resolve true once no job is running, or false after `timeoutMs`
+   */
+  private waitForIdle(timeoutMs: number): Promise<boolean> {
+    if (this.activeJobs.size === 0) return Promise.resolve(true);
+
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => resolve(false), timeoutMs);
+      this.idleWaiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+}
+
+/**
+ * Read a positive integer limit from the environment
+ */
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+// Shared by the import endpoint and /health
+export const importScheduler = new ImportScheduler({
+  maxConcurrent: limitFromEnv("IMPORT_MAX_CONCURRENCY", 2),
+  maxPerUser: limitFromEnv("IMPORT_MAX_CONCURRENCY_PER_USER", 1),
+  maxQueued: limitFromEnv("IMPORT_MAX_QUEUED", 20),
+});
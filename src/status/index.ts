@@ -0,0 +1,235 @@
+import { ColumnViolations, HeaderReport, JobStatus } from '../types';
+import { sendWebhook } from '../webhook';
+import { createUpstashStatusStore } from './upstash';
+import { MemoryStatusStore } from './memory';
+import { PostgresStatusStore } from './postgres';
+import { JobLease, JobStatusStore, JobStatusUpdate, StatusStoreConfigError } from './types';
+
+export * from './types';
+
+const STATUS_BACKENDS: Record<string, (ttlSeconds: number) => JobStatusStore> = {
+  upstash: createUpstashStatusStore,
+  memory: (ttlSeconds) => new MemoryStatusStore(ttlSeconds),
+  postgres: (ttlSeconds) => new PostgresStatusStore(ttlSeconds),
+};
+
+// Seconds a job's status is kept after its last update; 0 keeps it forever
+const DEFAULT_STATUS_TTL_SECONDS = 86400;
+
+let store: JobStatusStore | undefined;
+
+/**
+ * The status store selected by JOB_STATUS_BACKEND (upstash by default), with
+ * JOB_STATUS_TTL_SECONDS as its TTL. Created on first use, like storage.
+ */
+export function getStatusStore(): JobStatusStore {
+  if (!store) {
+    const backend = process.env.JOB_STATUS_BACKEND || 'upstash';
+    const create = STATUS_BACKENDS[backend];
+    if (!create) {
+      throw new StatusStoreConfigError(
+        `Unknown JOB_STATUS_BACKEND "${backend}" (expected ${Object.keys(STATUS_BACKENDS).join(
+          ', '
+        )})`
+      );
+    }
+
+    const ttl = process.env.JOB_STATUS_TTL_SECONDS;
+    const ttlSeconds = ttl === undefined || ttl === '' ? DEFAULT_STATUS_TTL_SECONDS : Number(ttl);
+    if (!Number.isInteger(ttlSeconds) || ttlSeconds < 0) {
+      throw new StatusStoreConfigError(
+        `JOB_STATUS_TTL_SECONDS must be a non-negative integer, got "${ttl}"`
+      );
+    }
+
+    store = create(ttlSeconds);
+  }
+  return store;
+}
+
+/**
+ * Get job status
+ */
+export async function getJobStatus(jobId: string): Promise<JobStatus | null> {
+  try {
+    return await getStatusStore().get(jobId);
+  } catch (error) {
+    console.error(`Failed to get job status for ${jobId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Merge updates into a job's status; null removes a field
+ */
+export async function updateJobStatus(jobId: string, updates: JobStatusUpdate): Promise<JobStatus> {
+  try {
+    const updatedStatus = await getStatusStore().merge(jobId, updates);
+
+    console.log(`Updated job status for ${jobId}:`, {
+      state: updatedStatus.state,
+      processedRows: updatedStatus.processedRows,
+      percentComplete: updatedStatus.percentComplete,
+      listId: updatedStatus.listId,
+      error: updatedStatus.error,
+    });
+
+    return updatedStatus;
+  } catch (error) {
+    console.error(`Failed to update job status for ${jobId}:`, error);
+    throw error;
+  }
+}
+
+/**
+ * Mark job as running, remembering where to send its final status. Clears
+ * the outcome of an earlier attempt, so a retry that succeeds does not carry
+ * its error.
+ */
+export async function markRunning(jobId: string, callbackUrl?: string): Promise<void> {
+  await updateJobStatus(jobId, {
+    state: 'running',
+    startedAt: new Date().toISOString(),
+    callbackUrl,
+    error: null,
+    violations: null,
+    finishedAt: null,
+    webhook: null,
+  });
+}
+
+/**
+ * Report progress (processed rows, plus row counts and transfer progress when known)
+ */
+export async function reportProgress(
+  jobId: string,
+  processedRows: number,
+  details?: Partial<JobStatus>
+): Promise<void> {
+  await updateJobStatus(jobId, {
+    processedRows,
+    ...details,
+  });
+}
+
+/**
+ * Record rows skipped by a tolerant import and where their error report lives
+ */
+export async function recordSkippedRows(
+  jobId: string,
+  skippedRows: number,
+  errorReportKey: string
+): Promise<void> {
+  await updateJobStatus(jobId, {
+    skippedRows,
+    errorReportKey,
+  });
+}
+
+/**
+ * Record how the file's header row was matched to the job's columns
+ */
+export async function recordHeaders(jobId: string, headers: HeaderReport): Promise<void> {
+  await updateJobStatus(jobId, { headers });
+}
+
+/**
+ * Mark job as succeeded
+ */
+export async function markSucceeded(jobId: string, listId: string): Promise<JobStatus> {
+  return finishJob(jobId, {
+    state: 'succeeded',
+    listId,
+    finishedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Mark job as failed, with the rows that failed validation if any did
+ */
+export async function markFailed(
+  jobId: string,
+  error: string,
+  violations?: ColumnViolations[]
+): Promise<JobStatus> {
+  return finishJob(jobId, {
+    state: 'failed',
+    error,
+    violations,
+    finishedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Mark job as cancelled
+ */
+export async function markCancelled(jobId: string): Promise<JobStatus> {
+  return finishJob(jobId, {
+    state: 'cancelled',
+    finishedAt: new Date().toISOString(),
+  });
+}
+
+/**
+ * Mark a job stopped by a worker shutdown; its checkpoint is kept, so it
+ * resumes when delivered again. Not a final state, so no webhook is sent.
+ */
+export async function markInterrupted(jobId: string): Promise<void> {
+  await updateJobStatus(jobId, { state: 'interrupted' });
+}
+
+/**
+ * Store the final state of a job and, if it has a callbackUrl, POST it there
+ * in the background. The delivery outcome is recorded on the job once
+ * retries are done; failures are never thrown.
+ */
+async function finishJob(jobId: string, updates: JobStatusUpdate): Promise<JobStatus> {
+  const status = await updateJobStatus(jobId, updates);
+  if (status.callbackUrl) {
+    sendWebhook(status.callbackUrl, status, async (webhook) => {
+      await updateJobStatus(jobId, { webhook });
+    });
+  }
+  return status;
+}
+
+/**
+ * Ask the worker running a job to stop
+ */
+export async function requestCancel(jobId: string): Promise<void> {
+  await getStatusStore().setCancelFlag(jobId);
+  console.log(`Cancellation requested for job ${jobId}`);
+}
+
+/**
+ * Check if cancellation was requested for a job
+ */
+export async function isCancelRequested(jobId: string): Promise<boolean> {
+  try {
+    return await getStatusStore().hasCancelFlag(jobId);
+  } catch (error) {
+    console.error(`Failed to check cancellation for ${jobId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Jobs whose worker stopped renewing its lease without releasing it, with
+ * their current status. A job here is stuck until it is delivered again.
+ */
+export async function listStaleJobs(): Promise<(JobLease & { status: JobStatus | null })[]> {
+  const leases = await getStatusStore().listStaleLeases();
+  return Promise.all(
+    leases.map(async (lease) => ({ ...lease, status: await getJobStatus(lease.jobId) }))
+  );
+}
+
+/**
+ * Check if job has already been processed (idempotency check)
+ */
+export async function isJobCompleted(jobId: string): Promise<boolean> {
+  const status = await getJobStatus(jobId);
+  return (
+    status?.state === 'succeeded' || status?.state === 'failed' || status?.state === 'cancelled'
+  );
+}
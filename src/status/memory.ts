@@ -0,0 +1,125 @@
+import { JobStatus } from '../types';
+import { JobLease, JobStatusStore, JobStatusUpdate } from './types';
+
+interface Entry<T> {
+  value: T;
+  expiresAt: number | null;
+}
+
+// How often expired entries are swept out
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Job status held in process memory, for tests and single-node deployments.
+ * Everything is lost on restart and invisible to other instances.
+ */
+export class MemoryStatusStore implements JobStatusStore {
+  readonly name = 'memory';
+  private readonly statuses = new Map<string, Entry<JobStatus>>();
+  private readonly cancelFlags = new Map<string, Entry<string>>();
+  // Kept for the status TTL, past their own expiry, so stale leases can be listed
+  private readonly leases = new Map<string, Entry<JobLease>>();
+
+  constructor(private readonly ttlSeconds: number) {
+    if (ttlSeconds > 0) {
+      setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+    }
+  }
+
+  async get(jobId: string): Promise<JobStatus | null> {
+    return this.read(this.statuses, jobId) ?? null;
+  }
+
+  async merge(jobId: string, updates: JobStatusUpdate): Promise<JobStatus> {
+    // Round-trip through JSON like the other stores, dropping undefined keys
+    // and sharing no objects with the caller
+    const status: Record<string, unknown> = {
+      jobId,
+      state: 'queued',
+      ...this.read(this.statuses, jobId),
+      ...JSON.parse(JSON.stringify(updates)),
+    };
+    for (const [key, value] of Object.entries(status)) {
+      if (value === null) delete status[key];
+    }
+    this.statuses.set(jobId, { value: status as JobStatus, expiresAt: this.expiresAt() });
+    return structuredClone(status as JobStatus);
+  }
+
+  async setCancelFlag(jobId: string): Promise<void> {
+    this.cancelFlags.set(jobId, {
+      value: new Date().toISOString(),
+      expiresAt: this.expiresAt(),
+    });
+  }
+
+  async hasCancelFlag(jobId: string): Promise<boolean> {
+    return this.read(this.cancelFlags, jobId) !== undefined;
+  }
+
+  async acquireLease(jobId: string, workerId: string, ttlSeconds: number): Promise<boolean> {
+    const lease = this.read(this.leases, jobId);
+    if (lease && lease.workerId !== workerId && Date.parse(lease.expiresAt) > Date.now()) {
+      return false;
+    }
+    this.setLease(jobId, workerId, ttlSeconds);
+    return true;
+  }
+
+  async renewLease(jobId: string, workerId: string, ttlSeconds: number): Promise<boolean> {
+    if (this.read(this.leases, jobId)?.workerId !== workerId) return false;
+    this.setLease(jobId, workerId, ttlSeconds);
+    return true;
+  }
+
+  async releaseLease(jobId: string, workerId: string): Promise<void> {
+    if (this.read(this.leases, jobId)?.workerId === workerId) {
+      this.leases.delete(jobId);
+    }
+  }
+
+  async listStaleLeases(): Promise<JobLease[]> {
+    const now = Date.now();
+    return [...this.leases.keys()]
+      .map((jobId) => this.read(this.leases, jobId))
+      .filter((lease): lease is JobLease => !!lease && Date.parse(lease.expiresAt) <= now)
+      .sort((a, b) => Date.parse(a.expiresAt) - Date.parse(b.expiresAt));
+  }
+
+  private setLease(jobId: string, workerId: string, ttlSeconds: number): void {
+    this.leases.set(jobId, {
+      value: {
+        jobId,
+        workerId,
+        expiresAt: new Date(Date.now() + ttlSeconds * 1000).toISOString(),
+      },
+      expiresAt: this.expiresAt(),
+    });
+  }
+
+  private read<T>(map: Map<string, Entry<T>>, jobId: string): T | undefined {
+    const entry = map.get(jobId);
+    if (!entry) return undefined;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      map.delete(jobId);
+      return undefined;
+    }
+    return structuredClone(entry.value);
+  }
+
+  private expiresAt(): number | null {
+    return this.ttlSeconds > 0 ? Date.now() + this.ttlSeconds * 1000 : null;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const map of [this.statuses, this.cancelFlags, this.leases] as Map<
+      string,
+      Entry<unknown>
+    >[]) {
+      for (const [jobId, entry] of map) {
+        if (entry.expiresAt !== null && entry.expiresAt <= now) map.delete(jobId);
+      }
+    }
+  }
+}
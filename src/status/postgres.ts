@@ -0,0 +1,173 @@
+import { and, asc, eq, gt, isNotNull, isNull, lte, or, sql } from 'drizzle-orm';
+import { dbWs } from '../db/drizzle';
+import { importJobs } from '../db/schema';
+import { JobStatus } from '../types';
+import { JobLease, JobStatusStore, JobStatusUpdate } from './types';
+
+/**
+ * Job status in the import_jobs table. Updates are merged with jsonb || in a
+ * single upsert, and fields set to null are then removed with jsonb -; expired rows are ignored and overwritten, not deleted.
+ */
+export class PostgresStatusStore implements JobStatusStore {
+  readonly name = 'postgres';
+
+  constructor(private readonly ttlSeconds: number) {}
+
+  async get(jobId: string): Promise<JobStatus | null> {
+    const [row] = await dbWs
+      .select({ status: importJobs.status })
+      .from(importJobs)
+      .where(and(eq(importJobs.jobId, jobId), notExpired()))
+      .limit(1);
+    return row?.status ?? null;
+  }
+
+  async merge(jobId: string, updates: JobStatusUpdate): Promise<JobStatus> {
+    const initial = JSON.stringify({ jobId, state: 'queued' });
+    const patch = JSON.stringify(updates);
+    const removed = JSON.stringify(
+      Object.entries(updates)
+        .filter(([, value]) => value === null)
+        .map(([key]) => key)
+    );
+    const removedKeys = sql`array(select jsonb_array_elements_text(${removed}::jsonb))`;
+    const now = new Date();
+
+    const [row] = await dbWs
+      .insert(importJobs)
+      .values({
+        jobId,
+        status: sql`(${initial}::jsonb || ${patch}::jsonb) - ${removedKeys}`,
+        expiresAt: this.expiresAt(now),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: importJobs.jobId,
+        set: {
+          // An expired status starts over, like a Redis key that has timed out
+          status: sql`((case when ${importJobs.expiresAt} <= now() then ${initial}::jsonb else ${importJobs.status} end) || ${patch}::jsonb) - ${removedKeys}`,
+          cancelRequestedAt: sql`case when ${importJobs.expiresAt} <= now() then null else ${importJobs.cancelRequestedAt} end`,
+          expiresAt: this.expiresAt(now),
+          updatedAt: now,
+        },
+      })
+      .returning({ status: importJobs.status });
+
+    return row.status;
+  }
+
+  async setCancelFlag(jobId: string): Promise<void> {
+    const now = new Date();
+    await dbWs
+      .insert(importJobs)
+      .values({
+        jobId,
+        status: { jobId, state: 'queued' },
+        cancelRequestedAt: now,
+        expiresAt: this.expiresAt(now),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: importJobs.jobId,
+        set: { cancelRequestedAt: now, updatedAt: now },
+      });
+  }
+
+  async hasCancelFlag(jobId: string): Promise<boolean> {
+    const [row] = await dbWs
+      .select({ cancelRequestedAt: importJobs.cancelRequestedAt })
+      .from(importJobs)
+      .where(and(eq(importJobs.jobId, jobId), notExpired()))
+      .limit(1);
+    return !!row?.cancelRequestedAt;
+  }
+
+  async acquireLease(jobId: string, workerId: string, ttlSeconds: number): Promise<boolean> {
+    const now = new Date();
+    // Lease times come from the database clock, which all workers share
+    const leaseExpiresAt = leaseExpiry(ttlSeconds);
+
+    const rows = await dbWs
+      .insert(importJobs)
+      .values({
+        jobId,
+        status: { jobId, state: 'queued' },
+        leaseOwner: workerId,
+        leaseExpiresAt,
+        expiresAt: this.expiresAt(now),
+        createdAt: now,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: importJobs.jobId,
+        set: { leaseOwner: workerId, leaseExpiresAt, updatedAt: now },
+        setWhere: or(
+          isNull(importJobs.leaseOwner),
+          eq(importJobs.leaseOwner, workerId),
+          lte(importJobs.leaseExpiresAt, sql`now()`)
+        ),
+      })
+      .returning({ jobId: importJobs.jobId });
+
+    return rows.length > 0;
+  }
+
+  async renewLease(jobId: string, workerId: string, ttlSeconds: number): Promise<boolean> {
+    const now = new Date();
+    const rows = await dbWs
+      .update(importJobs)
+      .set({
+        leaseExpiresAt: leaseExpiry(ttlSeconds),
+        updatedAt: now,
+      })
+      .where(and(eq(importJobs.jobId, jobId), eq(importJobs.leaseOwner, workerId)))
+      .returning({ jobId: importJobs.jobId });
+
+    return rows.length > 0;
+  }
+
+  async releaseLease(jobId: string, workerId: string): Promise<void> {
+    await dbWs
+      .update(importJobs)
+      .set({ leaseOwner: null, leaseExpiresAt: null, updatedAt: new Date() })
+      .where(and(eq(importJobs.jobId, jobId), eq(importJobs.leaseOwner, workerId)));
+  }
+
+  async listStaleLeases(): Promise<JobLease[]> {
+    const rows = await dbWs
+      .select({
+        jobId: importJobs.jobId,
+        leaseOwner: importJobs.leaseOwner,
+        leaseExpiresAt: importJobs.leaseExpiresAt,
+      })
+      .from(importJobs)
+      .where(
+        and(
+          isNotNull(importJobs.leaseOwner),
+          lte(importJobs.leaseExpiresAt, sql`now()`),
+          notExpired()
+        )
+      )
+      .orderBy(asc(importJobs.leaseExpiresAt));
+
+    return rows.map((row) => ({
+      jobId: row.jobId,
+      workerId: row.leaseOwner!,
+      expiresAt: row.leaseExpiresAt!.toISOString(),
+    }));
+  }
+
+  private expiresAt(now: Date): Date | null {
+    return this.ttlSeconds > 0 ? new Date(now.getTime() + this.ttlSeconds * 1000) : null;
+  }
+}
+
+function leaseExpiry(ttlSeconds: number) {
+  return sql`now() + make_interval(secs => ${ttlSeconds})`;
+}
+
+function notExpired() {
+  return or(isNull(importJobs.expiresAt), gt(importJobs.expiresAt, sql`now()`));
+}
@@ -0,0 +1,73 @@
+import { JobStatus } from '../types';
+
+/**
+ * Changes to a job's status. A key set to null removes the field, e.g. the
+ * error of an earlier attempt when the job runs again.
+ */
+export type JobStatusUpdate = { [K in keyof JobStatus]?: JobStatus[K] | null };
+
+/**
+ * A worker's claim on a job, kept alive by heartbeats. An expired lease means
+ * its worker stalled or died.
+ */
+export interface JobLease {
+  jobId: string;
+  workerId: string;
+  expiresAt: string;
+}
+
+/**
+ * Where job status, cancellation flags and leases are kept
+ */
+export interface JobStatusStore {
+  readonly name: string;
+
+  get(jobId: string): Promise<JobStatus | null>;
+
+  /**
+   * Merge updates into the stored status in one atomic step, creating it as
+   * queued if the job has none yet, and return the result. Keys set to
+   * undefined are left unchanged, and keys set to null are removed.
+   */
+  merge(jobId: string, updates: JobStatusUpdate): Promise<JobStatus>;
+
+  /**
+   * Flag a job for cancellation. The flag is kept apart from the status so
+   * that status updates from the worker cannot overwrite it.
+   */
+  setCancelFlag(jobId: string): Promise<void>;
+
+  hasCancelFlag(jobId: string): Promise<boolean>;
+
+  /**
+   * Take the lease on a job for `ttlSeconds` if nobody holds it, it expired,
+   * or `workerId` already holds it. Returns whether the lease was taken.
+   */
+  acquireLease(jobId: string, workerId: string, ttlSeconds: number): Promise<boolean>;
+
+  /**
+   * Extend a lease `workerId` holds. Returns false if the lease was lost to
+   * another worker (or released).
+   */
+  renewLease(jobId: string, workerId: string, ttlSeconds: number): Promise<boolean>;
+
+  /**
+   * Give up a lease, if `workerId` still holds it
+   */
+  releaseLease(jobId: string, workerId: string): Promise<void>;
+
+  /**
+   * Leases that expired without being released, oldest first
+   */
+  listStaleLeases(): Promise<JobLease[]>;
+}
+
+/**
+ * Raised on first use when the selected status backend is misconfigured
+ */
+export class StatusStoreConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatusStoreConfigError';
+  }
+}
@@ -0,0 +1,246 @@
+import { Redis } from '@upstash/redis';
+import { JobStatus } from '../types';
+import { JobLease, JobStatusStore, JobStatusUpdate, StatusStoreConfigError } from './types';
+
+// Merges the updates into the stored JSON inside Redis, so concurrent writers
+// (progress reports, cancellation, webhook results) never lose each other's
+// fields. Top-level fields are spliced as raw JSON text rather than decoded
+// and re-encoded, since cjson turns empty arrays into objects. ARGV[3..] are
+// field / JSON value pairs; a null value removes the field.
+const MERGE_SCRIPT = `
+-- Index just past the string starting at i
+local function skipString(json, i)
+  local j = i + 1
+  while true do
+    j = json:find('["\\\\]', j)
+    if json:sub(j, j) == '"' then
+      return j + 1
+    end
+    j = j + 2
+  end
+end
+
+-- Top-level fields of a JSON object as raw JSON text, in order
+local function splitObject(json)
+  local names, values = {}, {}
+  local i = json:find('{', 1, true) + 1
+  while true do
+    i = json:find('["}]', i)
+    if json:sub(i, i) == '}' then
+      return names, values
+    end
+    local nameEnd = skipString(json, i)
+    local name = cjson.decode(json:sub(i, nameEnd - 1))
+    local valueStart = json:find('[^%s:]', nameEnd)
+    local depth = 0
+    i = valueStart
+    while true do
+      local c = json:sub(i, i)
+      if c == '"' then
+        i = skipString(json, i)
+      else
+        if c == '{' or c == '[' then
+          depth = depth + 1
+        elseif c == '}' or c == ']' then
+          if depth == 0 then break end
+          depth = depth - 1
+        elseif c == ',' and depth == 0 then
+          break
+        end
+        i = i + 1
+      end
+    end
+    names[#names + 1] = name
+    values[name] = json:sub(valueStart, i - 1):match('^(.-)%s*$')
+  end
+end
+
+local current = redis.call('GET', KEYS[1])
+local names, values = splitObject(current or '{"jobId":' .. ARGV[1] .. ',"state":"queued"}')
+for i = 3, #ARGV, 2 do
+  if values[ARGV[i]] == nil then
+    names[#names + 1] = ARGV[i]
+  end
+  if ARGV[i + 1] == 'null' then
+    values[ARGV[i]] = false
+  else
+    values[ARGV[i]] = ARGV[i + 1]
+  end
+end
+
+local parts = {}
+for _, name in ipairs(names) do
+  if values[name] then
+    parts[#parts + 1] = cjson.encode(name) .. ':' .. values[name]
+  end
+end
+local encoded = '{' .. table.concat(parts, ',') .. '}'
+if tonumber(ARGV[2]) > 0 then
+  redis.call('SET', KEYS[1], encoded, 'EX', ARGV[2])
+else
+  redis.call('SET', KEYS[1], encoded)
+end
+return encoded
+`;
+
+// Sorted set of leased job ids, scored by lease expiry, for finding stale leases
+const LEASES_KEY = 'job-leases';
+
+// Takes (ARGV[6] = 'acquire') or extends ('renew') a lease. The lease key
+// outlives the lease itself, for the status TTL, so stale leases stay visible.
+const LEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+local now = tonumber(ARGV[3])
+if current then
+  local lease = cjson.decode(current)
+  if lease.workerId ~= ARGV[2] and (ARGV[6] == 'renew' or lease.expiresAt > now) then
+    return 0
+  end
+elseif ARGV[6] == 'renew' then
+  return 0
+end
+local expiresAt = now + tonumber(ARGV[4])
+redis.call('SET', KEYS[1], cjson.encode({ workerId = ARGV[2], expiresAt = expiresAt }))
+if tonumber(ARGV[5]) > 0 then
+  redis.call('EXPIRE', KEYS[1], ARGV[5])
+end
+redis.call('ZADD', KEYS[2], expiresAt, ARGV[1])
+return 1
+`;
+
+const RELEASE_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if current and cjson.decode(current).workerId == ARGV[2] then
+  redis.call('DEL', KEYS[1])
+  redis.call('ZREM', KEYS[2], ARGV[1])
+end
+return 0
+`;
+
+/**
+ * Job status in Upstash Redis, as JSON under job:<jobId>
+ */
+export class UpstashStatusStore implements JobStatusStore {
+  readonly name = 'upstash';
+  private readonly mergeScript;
+  private readonly leaseScript;
+  private readonly releaseScript;
+
+  constructor(private readonly redis: Redis, private readonly ttlSeconds: number) {
+    this.mergeScript = redis.createScript<unknown>(MERGE_SCRIPT);
+    this.leaseScript = redis.createScript<number>(LEASE_SCRIPT);
+    this.releaseScript = redis.createScript<number>(RELEASE_SCRIPT);
+  }
+
+  async get(jobId: string): Promise<JobStatus | null> {
+    const status = await this.redis.get(`job:${jobId}`);
+    return status ? parseStatus(status) : null;
+  }
+
+  async merge(jobId: string, updates: JobStatusUpdate): Promise<JobStatus> {
+    const fields = Object.entries(updates)
+      .filter(([, value]) => value !== undefined)
+      .flatMap(([key, value]) => [key, JSON.stringify(value)]);
+    const status = await this.mergeScript.exec(
+      [`job:${jobId}`],
+      [JSON.stringify(jobId), String(this.ttlSeconds), ...fields]
+    );
+    return parseStatus(status);
+  }
+
+  async setCancelFlag(jobId: string): Promise<void> {
+    const key = `job:${jobId}:cancel`;
+    const requestedAt = new Date().toISOString();
+    if (this.ttlSeconds > 0) {
+      await this.redis.setex(key, this.ttlSeconds, requestedAt);
+    } else {
+      await this.redis.set(key, requestedAt);
+    }
+  }
+
+  async hasCancelFlag(jobId: string): Promise<boolean> {
+    return (await this.redis.exists(`job:${jobId}:cancel`)) === 1;
+  }
+
+  acquireLease(jobId: string, workerId: string, ttlSeconds: number): Promise<boolean> {
+    return this.runLeaseScript('acquire', jobId, workerId, ttlSeconds);
+  }
+
+  renewLease(jobId: string, workerId: string, ttlSeconds: number): Promise<boolean> {
+    return this.runLeaseScript('renew', jobId, workerId, ttlSeconds);
+  }
+
+  async releaseLease(jobId: string, workerId: string): Promise<void> {
+    await this.releaseScript.exec([`job:${jobId}:lease`, LEASES_KEY], [jobId, workerId]);
+  }
+
+  async listStaleLeases(): Promise<JobLease[]> {
+    const jobIds = await this.redis.zrange<string[]>(LEASES_KEY, '-inf', Date.now(), {
+      byScore: true,
+    });
+    if (jobIds.length === 0) return [];
+
+    const leases = await this.redis.mget<({ workerId: string; expiresAt: number } | null)[]>(
+      ...jobIds.map((jobId) => `job:${jobId}:lease`)
+    );
+
+    const stale: JobLease[] = [];
+    const gone: string[] = [];
+    jobIds.forEach((jobId, i) => {
+      const lease = leases[i];
+      if (!lease) {
+        gone.push(jobId);
+        return;
+      }
+      stale.push({
+        jobId,
+        workerId: lease.workerId,
+        expiresAt: new Date(lease.expiresAt).toISOString(),
+      });
+    });
+
+    // Lease keys that reached the status TTL leave their id behind in the set
+    if (gone.length > 0) await this.redis.zrem(LEASES_KEY, ...gone);
+    return stale;
+  }
+
+  private async runLeaseScript(
+    mode: 'acquire' | 'renew',
+    jobId: string,
+    workerId: string,
+    ttlSeconds: number
+  ): Promise<boolean> {
+    const taken = await this.leaseScript.exec(
+      [`job:${jobId}:lease`, LEASES_KEY],
+      [
+        jobId,
+        workerId,
+        String(Date.now()),
+        String(ttlSeconds * 1000),
+        String(this.ttlSeconds),
+        mode,
+      ]
+    );
+    return taken === 1;
+  }
+}
+
+/**
+ * The client deserializes JSON replies on its own, unless configured not to
+ */
+function parseStatus(value: unknown): JobStatus {
+  return (typeof value === 'string' ? JSON.parse(value) : value) as JobStatus;
+}
+
+export function createUpstashStatusStore(ttlSeconds: number): UpstashStatusStore {
+  const url = process.env.UPSTASH_REDIS_REST_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (!url || !token) {
+    throw new StatusStoreConfigError(
+      'Upstash status store requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN'
+    );
+  }
+
+  return new UpstashStatusStore(new Redis({ url, token }), ttlSeconds);
+}
@@ -0,0 +1,148 @@
+import { Readable } from "stream";
+import { createLocalStorage } from "./local";
+import { createR2Storage, createS3Storage } from "./s3";
+import { ObjectStorage, StorageConfigError } from "./types";
+
+export * from "./types";
+
+const STORAGE_BACKENDS: Record<string, () => ObjectStorage> = {
+  r2: createR2Storage,
+  s3: createS3Storage,
+  local: createLocalStorage,
+};
+
+/**
+ * Environment variables each backend reads, for the startup check
+ */
+export const STORAGE_ENV: Record<string, string[]> = {
+  r2: ["R2_ACCOUNT_ID", "R2_ACCESS_KEY_ID", "R2_SECRET_ACCESS_KEY"],
+  s3: ["S3_ENDPOINT", "S3_REGION", "S3_ACCESS_KEY_ID", "S3_SECRET_ACCESS_KEY"],
+  local: ["LOCAL_STORAGE_DIR"],
+};
+
+let storage: ObjectStorage | undefined;
+
+/**
+ * The storage backend selected by STORAGE_BACKEND (r2 by default). Created on
+ * first use, so a misconfigured backend fails the request that needs it
+ * rather than the process at startup.
+ */
+export function getStorage(): ObjectStorage {
+  if (!storage) {
+    const backend = process.env.STORAGE_BACKEND || "r2";
+    const create = STORAGE_BACKENDS[backend];
+    if (!create) {
+      throw new StorageConfigError(
+        `Unknown STORAGE_BACKEND "${backend}" (expected ${Object.keys(
+          STORAGE_BACKENDS
+        ).join(", ")})`
+      );
+    }
+    storage = create();
+  }
+  return storage;
+}
+
+/**
+ * Get a readable stream for a CSV file from storage
+ * @param bucket Bucket name
+ * @param key Object key in the bucket
+ * @param maxFileSize Optional maximum file size in bytes
+ * @param range Optional byte offset to start reading from, and the ETag the
+ *   object must still have (used when resuming an import)
+ * @returns Readable stream of the CSV file and metadata; contentLength is
+ *   always the size of the whole object
+ */
+export async function getObjectStream(
+  bucket: string,
+  key: string,
+  maxFileSize?: number,
+  range?: { start: number; ifMatch?: string }
+): Promise<{ stream: Readable; contentLength?: number; etag?: string }> {
+  try {
+    const object = await getStorage().getObject(bucket, key, range);
+    const { contentLength } = object;
+
+    // Enforce file size limit if provided
+    if (maxFileSize && contentLength && contentLength > maxFileSize) {
+      object.stream.destroy();
+      throw new Error(
+        `File too large: ${contentLength} bytes exceeds limit of ${maxFileSize} bytes`
+      );
+    }
+
+    console.log(`Successfully opened stream for ${bucket}/${key}`, {
+      contentLength,
+      contentType: object.contentType,
+      lastModified: object.lastModified,
+      start: range?.start,
+    });
+
+    return { stream: object.stream, contentLength, etag: object.etag };
+  } catch (error) {
+    console.error(`Failed to get object stream: ${bucket}/${key}`, error);
+    throw new Error(
+      `Failed to stream CSV file: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+/**
+ * Upload a small object (e.g. an import error report)
+ * @param bucket Bucket name
+ * @param key Object key in the bucket
+ * @param body Object contents
+ * @param contentType MIME type of the contents
+ */
+export async function putObject(
+  bucket: string,
+  key: string,
+  body: string | Buffer,
+  contentType: string
+): Promise<void> {
+  try {
+    await getStorage().putObject(bucket, key, body, contentType);
+    console.log(`Successfully uploaded object: ${bucket}/${key}`);
+  } catch (error) {
+    console.error(`Failed to upload object: ${bucket}/${key}`, error);
+    throw new Error(
+      `Failed to upload file: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+/**
+ * Delete an object from storage (for cleanup after successful import)
+ * @param bucket Bucket name
+ * @param key Object key in the bucket
+ */
+export async function deleteObject(bucket: string, key: string): Promise<void> {
+  try {
+    await getStorage().deleteObject(bucket, key);
+    console.log(`Successfully deleted object: ${bucket}/${key}`);
+  } catch (error) {
+    console.error(`Failed to delete object: ${bucket}/${key}`, error);
+    // Don't throw here - cleanup failure shouldn't fail the job
+  }
+}
+
+/**
+ * Check if an object exists in storage
+ * @param bucket Bucket name
+ * @param key Object key in the bucket
+ * @returns true if object exists, false otherwise
+ */
+export async function objectExists(
+  bucket: string,
+  key: string
+): Promise<boolean> {
+  try {
+    return (await getStorage().headObject(bucket, key)) !== null;
+  } catch (error) {
+    return false;
+  }
+}
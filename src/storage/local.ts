@@ -0,0 +1,98 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { ObjectMetadata, ObjectStorage, StoredObject } from "./types";
+
+/**
+ * Storage in a local directory, for development: bucket "uploads" and key
+ * "a/b.csv" live at <root>/uploads/a/b.csv. ETags are derived from size and
+ * modification time, so rewriting a file invalidates resume checkpoints just
+ * like re-uploading it would.
+ */
+export class LocalStorage implements ObjectStorage {
+  readonly name = "local";
+  private readonly root: string;
+
+  constructor(root: string) {
+    this.root = path.resolve(root);
+  }
+
+  async getObject(
+    bucket: string,
+    key: string,
+    range?: { start: number; ifMatch?: string }
+  ): Promise<StoredObject> {
+    const file = this.resolve(bucket, key);
+    const metadata = await this.headObject(bucket, key);
+
+    if (!metadata) {
+      throw new Error(`Object not found: ${bucket}/${key}`);
+    }
+    if (range?.ifMatch && range.ifMatch !== metadata.etag) {
+      throw new Error(`Precondition failed: ${bucket}/${key} has changed`);
+    }
+
+    return {
+      ...metadata,
+      stream: createReadStream(file, { start: range?.start ?? 0 }),
+    };
+  }
+
+  async headObject(
+    bucket: string,
+    key: string
+  ): Promise<ObjectMetadata | null> {
+    try {
+      const stats = await stat(this.resolve(bucket, key));
+      if (!stats.isFile()) return null;
+
+      return {
+        contentLength: stats.size,
+        etag: `"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(
+          16
+        )}"`,
+        lastModified: stats.mtime,
+      };
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async putObject(
+    bucket: string,
+    key: string,
+    body: string | Buffer
+  ): Promise<void> {
+    const file = this.resolve(bucket, key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, body);
+  }
+
+  async deleteObject(bucket: string, key: string): Promise<void> {
+    await rm(this.resolve(bucket, key), { force: true });
+  }
+
+  /**
+   * Map a bucket and key to a path, refusing anything that escapes the bucket
+   */
+  private resolve(bucket: string, key: string): string {
+    const bucketDir = path.resolve(this.root, bucket);
+    const file = path.resolve(bucketDir, key);
+
+    if (
+      path.dirname(bucketDir) !== this.root ||
+      !file.startsWith(bucketDir + path.sep)
+    ) {
+      throw new Error(`Invalid object path: ${bucket}/${key}`);
+    }
+    return file;
+  }
+}
+
+/**
+ * Files under LOCAL_STORAGE_DIR (./storage by default)
+ */
+export function createLocalStorage(): LocalStorage {
+  return new LocalStorage(process.env.LOCAL_STORAGE_DIR || "./storage");
+}
@@ -0,0 +1,153 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+} from "@aws-sdk/client-s3";
+import { Readable } from "stream";
+import {
+  ObjectMetadata,
+  ObjectStorage,
+  StoredObject,
+  StorageConfigError,
+} from "./types";
+
+/**
+ * Storage backed by an S3-compatible API: Cloudflare R2, AWS S3 or MinIO
+ */
+export class S3Storage implements ObjectStorage {
+  constructor(readonly name: string, private readonly client: S3Client) {}
+
+  async getObject(
+    bucket: string,
+    key: string,
+    range?: { start: number; ifMatch?: string }
+  ): Promise<StoredObject> {
+    const command = new GetObjectCommand({
+      Bucket: bucket,
+      Key: key,
+      Range: range ? `bytes=${range.start}-` : undefined,
+      IfMatch: range?.ifMatch,
+    });
+
+    const response = await (this.client as any).send(command);
+
+    if (!response.Body) {
+      throw new Error(`Object not found: ${bucket}/${key}`);
+    }
+
+    // For ranged reads the total size is the part after the slash in "bytes 100-999/1000"
+    const contentLength: number | undefined = response.ContentRange
+      ? Number(response.ContentRange.split("/")[1]) || undefined
+      : response.ContentLength;
+
+    return {
+      stream: response.Body as Readable,
+      contentLength,
+      contentType: response.ContentType,
+      etag: response.ETag,
+      lastModified: response.LastModified,
+    };
+  }
+
+  async headObject(
+    bucket: string,
+    key: string
+  ): Promise<ObjectMetadata | null> {
+    try {
+      const response = await (this.client as any).send(
+        new HeadObjectCommand({ Bucket: bucket, Key: key })
+      );
+      return {
+        contentLength: response.ContentLength,
+        contentType: response.ContentType,
+        etag: response.ETag,
+        lastModified: response.LastModified,
+      };
+    } catch (error: any) {
+      if (
+        error?.name === "NotFound" ||
+        error?.$metadata?.httpStatusCode === 404
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async putObject(
+    bucket: string,
+    key: string,
+    body: string | Buffer,
+    contentType: string
+  ): Promise<void> {
+    await (this.client as any).send(
+      new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+      })
+    );
+  }
+
+  async deleteObject(bucket: string, key: string): Promise<void> {
+    await (this.client as any).send(
+      new DeleteObjectCommand({ Bucket: bucket, Key: key })
+    );
+  }
+}
+
+/**
+ * Cloudflare R2, addressed by account id
+ */
+export function createR2Storage(): S3Storage {
+  const accountId = process.env.R2_ACCOUNT_ID;
+  const accessKeyId = process.env.R2_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.R2_SECRET_ACCESS_KEY;
+
+  if (!accountId || !accessKeyId || !secretAccessKey) {
+    throw new StorageConfigError(
+      "R2 storage requires R2_ACCOUNT_ID, R2_ACCESS_KEY_ID and R2_SECRET_ACCESS_KEY"
+    );
+  }
+
+  return new S3Storage(
+    "r2",
+    new S3Client({
+      region: "auto",
+      endpoint: `https://${accountId}.r2.cloudflarestorage.com`,
+      credentials: { accessKeyId, secretAccessKey },
+    })
+  );
+}
+
+/**
+ * AWS S3 or any S3-compatible server (MinIO, Ceph, ...). Without explicit
+ * keys the SDK's default credential chain is used; MinIO needs
+ * S3_FORCE_PATH_STYLE=true.
+ */
+export function createS3Storage(): S3Storage {
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+  if (!accessKeyId !== !secretAccessKey) {
+    throw new StorageConfigError(
+      "S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be set together"
+    );
+  }
+
+  return new S3Storage(
+    "s3",
+    new S3Client({
+      region: process.env.S3_REGION || "us-east-1",
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      credentials:
+        accessKeyId && secretAccessKey
+          ? { accessKeyId, secretAccessKey }
+          : undefined,
+    })
+  );
+}
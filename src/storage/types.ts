@@ -0,0 +1,64 @@
+import { Readable } from "stream";
+
+/**
+ * Metadata of a stored object
+ */
+export interface ObjectMetadata {
+  contentLength?: number; // size of the whole object in bytes
+  contentType?: string;
+  etag?: string;
+  lastModified?: Date;
+}
+
+/**
+ * An object opened for reading
+ */
+export interface StoredObject extends ObjectMetadata {
+  stream: Readable;
+}
+
+/**
+ * Where uploads are read from and error reports written to. Buckets map to
+ * S3 buckets or, for local storage, to subdirectories of the storage root.
+ */
+export interface ObjectStorage {
+  readonly name: string;
+
+  /**
+   * Open an object for reading, optionally from a byte offset and only if it
+   * still has the given ETag. contentLength is always the size of the whole
+   * object, even for ranged reads.
+   */
+  getObject(
+    bucket: string,
+    key: string,
+    range?: { start: number; ifMatch?: string }
+  ): Promise<StoredObject>;
+
+  /**
+   * Metadata of an object, or null if it does not exist
+   */
+  headObject(bucket: string, key: string): Promise<ObjectMetadata | null>;
+
+  putObject(
+    bucket: string,
+    key: string,
+    body: string | Buffer,
+    contentType: string
+  ): Promise<void>;
+
+  /**
+   * Delete an object; deleting a missing object is not an error
+   */
+  deleteObject(bucket: string, key: string): Promise<void>;
+}
+
+/**
+ * Raised on first use when the selected storage backend is misconfigured
+ */
+export class StorageConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StorageConfigError";
+  }
+}
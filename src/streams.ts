@@ -0,0 +1,53 @@
+import { createHash, Hash } from "crypto";
+import { Transform, TransformCallback } from "stream";
+
+/**
+ * Pass-through that counts the bytes flowing through it, e.g. how much of an
+ * R2 object has been read for progress reporting, and optionally hashes them
+ */
+export class ByteCounter extends Transform {
+  bytes = 0;
+  // Hex digest, set once the whole stream has passed through
+  digest: string | null = null;
+  private readonly hash: Hash | null;
+
+  constructor(hashAlgorithm?: string) {
+    super();
+    this.hash = hashAlgorithm ? createHash(hashAlgorithm) : null;
+  }
+
+  _transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+    this.bytes += chunk.length;
+    this.hash?.update(chunk);
+    callback(null, chunk);
+  }
+
+  _flush(callback: TransformCallback) {
+    if (this.hash) this.digest = this.hash.digest("hex");
+    callback();
+  }
+}
+
+/**
+ * Pass-through that fails with the given error once more than `limit` bytes
+ * flowed through it
+ */
+export class SizeLimit extends Transform {
+  private bytes = 0;
+
+  constructor(
+    private readonly limit: number,
+    private readonly createError: () => Error
+  ) {
+    super();
+  }
+
+  _transform(chunk: Buffer, _encoding: string, callback: TransformCallback) {
+    this.bytes += chunk.length;
+    if (this.bytes > this.limit) {
+      callback(this.createError());
+      return;
+    }
+    callback(null, chunk);
+  }
+}
@@ -0,0 +1,66 @@
+import { Column, ColumnTransform } from "./types";
+
+// Compiled "replace" patterns, by flags and pattern
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Run a column's configured transforms over a trimmed cell, in order. The
+ * result is still a string unless the column splits it into an array.
+ * Empty cells stay empty unless a transform fills them in.
+ */
+export function transformValue(
+  column: Column,
+  value: string
+): string | string[] {
+  const transforms = column.config?.transforms;
+  if (!transforms) return value;
+
+  let result = value;
+  for (const transform of transforms) {
+    if (transform.type === "split") {
+      return result ? splitValue(result, transform.separator) : result;
+    }
+    result = applyTransform(transform, result);
+  }
+  return result;
+}
+
+function applyTransform(
+  transform: Exclude<ColumnTransform, { type: "split" }>,
+  value: string
+): string {
+  switch (transform.type) {
+    case "lowercase":
+      return value.toLowerCase();
+    case "uppercase":
+      return value.toUpperCase();
+    case "collapseWhitespace":
+      return value.replace(/\s+/g, " ").trim();
+    case "replace":
+      return value.replace(
+        compileRegex(transform.pattern, transform.flags),
+        transform.replacement
+      );
+    case "defaultIfEmpty":
+      return value === "" ? transform.value : value;
+    case "digitsOnly":
+      return value.replace(/\D/g, "");
+  }
+}
+
+function splitValue(value: string, separator: string): string[] {
+  return value
+    .split(separator)
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+}
+
+function compileRegex(pattern: string, flags: string): RegExp {
+  const cacheKey = `${flags}/${pattern}`;
+  let regex = regexCache.get(cacheKey);
+  if (!regex) {
+    regex = new RegExp(pattern, flags);
+    regexCache.set(cacheKey, regex);
+  }
+  return regex;
+}
@@ -1,18 +1,156 @@
 import { z } from "zod";
+import { expressionFields, parseExpression } from "./expression";
 
 // Column type definition
-export type ColumnType = "string" | "jsonb";
+export type ColumnType = z.infer<typeof ColumnTypeSchema>;
 
 // Base Zod schemas
-const ColumnTypeSchema = z.enum(["string", "jsonb"]);
+const ColumnTypeSchema = z.enum([
+  "string",
+  "jsonb",
+  "number",
+  "integer",
+  "boolean",
+  "date",
+  "timestamp",
+  "email",
+  "url",
+]);
 
-const ColumnSchema = z.object({
-  name: z.string(),
-  key: z.string(),
-  type: ColumnTypeSchema,
-  order: z.number(),
+// Cleanup applied to a cell, after trimming and before coercion
+const ColumnTransformSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("lowercase") }),
+  z.object({ type: z.literal("uppercase") }),
+  z.object({ type: z.literal("collapseWhitespace") }), // runs of whitespace to one space
+  z
+    .object({
+      type: z.literal("replace"),
+      pattern: z.string().min(1).max(200), // regular expression
+      replacement: z.string().default(""), // may use $1, $<name>
+      flags: z
+        .string()
+        .regex(/^[gimsu]*$/)
+        .default("g"),
+    })
+    .refine(
+      (transform) => {
+        try {
+          new RegExp(transform.pattern, transform.flags);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      {
+        message: "pattern must be a valid regular expression",
+        path: ["pattern"],
+      }
+    ),
+  // Into an array of trimmed, non-empty parts; only last, on a jsonb column
+  z.object({
+    type: z.literal("split"),
+    separator: z.string().min(1).default(","),
+  }),
+  z.object({ type: z.literal("defaultIfEmpty"), value: z.string() }),
+  z.object({ type: z.literal("digitsOnly") }), // e.g. phone numbers
+]);
+
+// Coercion hints, transforms and derived column expressions, persisted to
+// list_columns.config
+const ColumnConfigSchema = z.object({
+  decimalSeparator: z.string().length(1).optional(), // number/integer, default "."
+  thousandsSeparator: z.string().max(1).optional(), // number/integer, "" to disable
+  dateFormat: z.string().min(1).optional(), // date/timestamp, e.g. "DD/MM/YYYY HH:mm"
+  transforms: z.array(ColumnTransformSchema).optional(), // applied in order
+  // Computes the column from other columns instead of reading it from the
+  // file, e.g. 'concat(first_name, " ", last_name)'
+  expression: z
+    .string()
+    .min(1)
+    .max(500)
+    .superRefine((expression, ctx) => {
+      try {
+        parseExpression(expression);
+      } catch (error) {
+        ctx.addIssue({ code: "custom", message: (error as Error).message });
+      }
+    })
+    .optional(),
 });
 
+// Where a column's values come from: the cell at a 0-based index, the cell
+// under a header other than the column's name, or "skip" to read the column
+// for expressions without storing it
+const ColumnSourceSchema = z.union([
+  z.object({ index: z.number().int().nonnegative() }),
+  z.object({ header: z.string().min(1) }),
+  z.literal("skip"),
+]);
+
+// Constraints on a column's values, checked after transforms; empty values
+// only fail "required"
+const ColumnValidationSchema = z
+  .object({
+    required: z.boolean().optional(),
+    pattern: z.string().min(1).max(200).optional(), // regular expression the whole value must match
+    minLength: z.number().int().nonnegative().optional(),
+    maxLength: z.number().int().positive().optional(),
+    allowedValues: z.array(z.string()).min(1).optional(), // compared case-sensitively
+    unique: z.boolean().optional(), // no value twice within the import
+  })
+  .refine(
+    (validation) => {
+      try {
+        if (validation.pattern) new RegExp(validation.pattern);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "pattern must be a valid regular expression", path: ["pattern"] }
+  )
+  .refine(
+    (validation) =>
+      validation.minLength === undefined ||
+      validation.maxLength === undefined ||
+      validation.minLength <= validation.maxLength,
+    { message: "minLength must not exceed maxLength", path: ["minLength"] }
+  );
+
+const ColumnSchema = z
+  .object({
+    name: z.string(),
+    key: z.string(),
+    type: ColumnTypeSchema,
+    order: z.number(),
+    config: ColumnConfigSchema.optional(),
+    validation: ColumnValidationSchema.optional(),
+    source: ColumnSourceSchema.optional(), // default: the header matching name
+  })
+  .refine(
+    (column) => column.config?.expression === undefined || !column.source,
+    {
+      message: "A derived column (config.expression) cannot have a source",
+      path: ["source"],
+    }
+  )
+  .refine(
+    (column) => {
+      const transforms = column.config?.transforms ?? [];
+      const split = transforms.findIndex(
+        (transform) => transform.type === "split"
+      );
+      return (
+        split === -1 ||
+        (split === transforms.length - 1 && column.type === "jsonb")
+      );
+    },
+    {
+      message: 'A "split" transform must come last, on a jsonb column',
+      path: ["config", "transforms"],
+    }
+  );
+
 const R2Schema = z.object({
   bucket: z.string(),
   key: z.string(),
@@ -20,6 +158,40 @@ const R2Schema = z.object({
   size: z.number().optional(),
 });
 
+// Encodings the worker decodes to UTF-8 before parsing ("latin1" is read as Windows-1252)
+const SourceEncodingSchema = z.enum([
+  "utf-8",
+  "utf-16le",
+  "utf-16be",
+  "latin1",
+  "windows-1252",
+]);
+
+// How the CSV is parsed; unset fields are detected when autoDetect is on,
+// otherwise they default to comma, double quote and UTF-8
+const CsvOptionsSchema = z.object({
+  delimiter: z.string().length(1).optional(),
+  quote: z.string().length(1).optional(),
+  escape: z.string().length(1).optional(), // defaults to the quote char ("" inside quotes)
+  encoding: SourceEncodingSchema.optional(), // a BOM is honored when unset
+  autoDetect: z.boolean().default(false),
+});
+
+// Layout of a text upload; .xlsx workbooks are recognized by type/extension
+const InputFormatSchema = z.enum(["csv", "ndjson", "json"]);
+
+// Worksheet of an .xlsx upload, by name or 0-based index in workbook order
+const SheetSchema = z.union([
+  z.string().min(1),
+  z.number().int().nonnegative(),
+]);
+
+// Rows whose key columns all match are duplicates; the strategy decides which data wins
+const DedupeSchema = z.object({
+  keys: z.array(z.string()).min(1), // column keys forming the dedupe key
+  strategy: z.enum(["skip", "overwrite", "merge"]),
+});
+
 // EnqueuePayload schema - matches client/Vercel
 export const EnqueuePayloadSchema = z.object({
   jobId: z.string().uuid(),
@@ -27,24 +199,151 @@ export const EnqueuePayloadSchema = z.object({
   firstRowIsHeader: z.boolean(),
   columns: z.array(ColumnSchema).min(1),
   r2: R2Schema,
+  // "ndjson" and "json" (a top-level array) map object fields to columns by name
+  format: InputFormatSchema.default("csv"),
+  zipEntry: z.string().optional(), // file to import from a .zip upload, default its first .csv (.ndjson/.jsonl, .json for those formats)
+  // Sheet of an .xlsx upload, default the first one
+  sheet: SheetSchema.optional(),
+  // "fail" aborts the import on the first invalid row, "skip" collects it in an error report
+  onRowError: z.enum(["fail", "skip"]).default("fail"),
+  // When the header row does not name exactly the columns: "fail", "ignoreExtra"
+  // (fail on missing columns only) or, opted into, "positional" (map by
+  // position if any are missing)
+  onHeaderMismatch: z
+    .enum(["fail", "ignoreExtra", "positional"])
+    .default("ignoreExtra"),
+  maxErrors: z.number().int().nonnegative().optional(), // fail once more rows than this are skipped
+  // "create" makes a new list, "append" adds rows to targetListId (owned by the user)
+  mode: z.enum(["create", "append"]).default("create"),
+  targetListId: z.string().optional(),
+  dedupe: DedupeSchema.optional(),
+  parser: CsvOptionsSchema.optional(),
+  callbackUrl: z.string().url().optional(), // receives the final JobStatus, signed
 });
 
 // WorkerMessage schema - EnqueuePayload + additional fields
 export const WorkerMessageSchema = EnqueuePayloadSchema.extend({
   userId: z.string(),
   requestedAt: z.string(),
+})
+  .refine((message) => message.mode !== "append" || !!message.targetListId, {
+    message: 'targetListId is required when mode is "append"',
+    path: ["targetListId"],
+  })
+  .refine(
+    (message) =>
+      !message.dedupe ||
+      message.dedupe.keys.every((key) =>
+        message.columns.some((col) => col.key === key && isStoredColumn(col))
+      ),
+    {
+      message: "dedupe.keys must reference column keys",
+      path: ["dedupe", "keys"],
+    }
+  )
+  .refine(
+    (message) => {
+      const readKeys = new Set(
+        message.columns
+          .filter((col) => !isDerivedColumn(col))
+          .map((col) => col.key)
+      );
+      return message.columns.filter(isDerivedColumn).every((col) => {
+        try {
+          return expressionFields(
+            parseExpression(col.config!.expression!)
+          ).every((key) => readKeys.has(key));
+        } catch {
+          return true; // reported on the expression itself
+        }
+      });
+    },
+    {
+      message:
+        "Expressions must reference the keys of columns read from the file",
+      path: ["columns"],
+    }
+  );
+
+// Preview request - sample an uploaded object before enqueueing the import
+export const PreviewRequestSchema = z.object({
+  r2: R2Schema,
+  firstRowIsHeader: z.boolean().default(true),
+  sampleRows: z.number().int().min(1).max(1000).default(50),
+  format: InputFormatSchema.default("csv"),
+  zipEntry: z.string().optional(),
+  sheet: SheetSchema.optional(),
+  parser: CsvOptionsSchema.optional(),
+});
+
+// Query of GET /users/:userId/imports - newest first, filtered by final state
+// and by when the import started
+export const ImportHistoryQuerySchema = z.object({
+  state: z.enum(["succeeded", "failed", "cancelled"]).optional(),
+  from: z.union([z.iso.datetime({ offset: true }), z.iso.date()]).optional(), // inclusive
+  to: z.union([z.iso.datetime({ offset: true }), z.iso.date()]).optional(), // exclusive
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Outcome of POSTing the final JobStatus to the job's callbackUrl
+const WebhookDeliverySchema = z.object({
+  delivered: z.boolean(),
+  attempts: z.number(),
+  statusCode: z.number().optional(), // of the last attempt
+  error: z.string().optional(), // of the last failed attempt
+  deliveredAt: z.string().optional(),
+});
+
+// Rows of a column that broke its validation rules
+const ColumnViolationsSchema = z.object({
+  column: z.string(),
+  count: z.number(),
+  rules: z.record(z.string(), z.number()), // count per rule, e.g. { required: 120 }
+  // The first VIOLATION_EXAMPLES, in source order
+  examples: z.array(
+    z.object({ line: z.number(), rule: z.string(), value: z.string() })
+  ),
+});
+
+// How the header row of a CSV or sheet was matched to the job's columns
+const HeaderReportSchema = z.object({
+  matchedBy: z.enum(["name", "position"]),
+  missing: z.array(z.string()), // columns without a header cell
+  unexpected: z.array(z.string()), // header cells that are not a column, ignored
 });
 
 // JobStatus schema
 export const JobStatusSchema = z.object({
   jobId: z.string(),
-  state: z.enum(["queued", "running", "succeeded", "failed"]),
+  state: z.enum([
+    "queued",
+    "running",
+    "interrupted", // stopped by a worker shutdown, resumes from its checkpoint
+    "succeeded",
+    "failed",
+    "cancelled",
+  ]),
   userId: z.string().optional(),
   listId: z.string().optional(),
   error: z.string().optional(),
   startedAt: z.string().optional(),
   finishedAt: z.string().optional(),
   processedRows: z.number().optional(),
+  skippedRows: z.number().optional(), // rows left out by onRowError: "skip"
+  errorReportKey: z.string().optional(), // R2 key of the skipped-rows CSV
+  violations: z.array(ColumnViolationsSchema).optional(), // validation failures, per column
+  headers: HeaderReportSchema.optional(), // set once the header row is read
+  insertedRows: z.number().optional(),
+  updatedRows: z.number().optional(), // existing rows overwritten or merged by dedupe
+  duplicateRows: z.number().optional(), // rows skipped by "skip", or repeats of earlier rows of the file
+  bytesRead: z.number().optional(), // position in the source file
+  totalBytes: z.number().optional(), // size of the source file (contentLength)
+  percentComplete: z.number().optional(),
+  rowsPerSecond: z.number().optional(),
+  estimatedFinishAt: z.string().optional(),
+  callbackUrl: z.string().optional(),
+  webhook: WebhookDeliverySchema.optional(),
 });
 
 // TypeScript types inferred from schemas
@@ -52,12 +351,56 @@ export type EnqueuePayload = z.infer<typeof EnqueuePayloadSchema>;
 export type WorkerMessage = z.infer<typeof WorkerMessageSchema>;
 export type JobStatus = z.infer<typeof JobStatusSchema>;
 export type Column = z.infer<typeof ColumnSchema>;
+export type ColumnConfig = z.infer<typeof ColumnConfigSchema>;
+export type ColumnTransform = z.infer<typeof ColumnTransformSchema>;
+export type ColumnValidation = z.infer<typeof ColumnValidationSchema>;
+export type ColumnViolations = z.infer<typeof ColumnViolationsSchema>;
+export type HeaderReport = z.infer<typeof HeaderReportSchema>;
 export type R2Config = z.infer<typeof R2Schema>;
+export type DedupeOptions = z.infer<typeof DedupeSchema>;
+export type PreviewRequest = z.infer<typeof PreviewRequestSchema>;
+export type ImportHistoryQuery = z.infer<typeof ImportHistoryQuerySchema>;
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+export type CsvOptions = z.infer<typeof CsvOptionsSchema>;
+export type SourceEncoding = z.infer<typeof SourceEncodingSchema>;
+
+// Outcome of writing rows, reported on JobStatus
+export interface RowCounts {
+  insertedRows: number;
+  updatedRows: number;
+  duplicateRows: number;
+}
 
 // Constants
-export const INSERT_BATCH_SIZE = 500;
+export const COMMIT_CHUNK_SIZE = 5000; // Rows committed per transaction, each with a checkpoint
 export const PROGRESS_REPORT_INTERVAL = 1000; // Report progress every 1000 rows
-export const MAX_FILE_SIZE = 200 * 1024 * 1024; // 200MB
+export const CANCEL_CHECK_INTERVAL = 500; // Check for cancellation every 500 rows
+export const MAX_FILE_SIZE = 200 * 1024 * 1024; // 200MB, compressed size for .gz/.zip uploads
+export const MAX_DECOMPRESSED_SIZE = 1024 * 1024 * 1024; // 1GB read out of a .gz/.zip upload
+export const MAX_ROW_ERRORS = 10000; // Upper bound for skipped rows when maxErrors is not set
+export const VIOLATION_EXAMPLES = 5; // Example values kept per column on JobStatus.violations
+export const WEBHOOK_MAX_ATTEMPTS = 5; // Retries back off 1s, 2s, 4s, 8s
+export const WEBHOOK_RETRY_BASE_MS = 1000;
+export const WEBHOOK_TIMEOUT_MS = 10000; // Per attempt
+export const WEBHOOK_SHUTDOWN_WAIT_MS = 5000; // Part of the shutdown budget kept for webhooks still being delivered
+export const LEASE_TTL_SECONDS = 60; // A job whose lease is this old is taken over on redelivery
+export const LEASE_RENEW_INTERVAL_MS = 20000;
+export const SHUTDOWN_ABORT_TIMEOUT_MS = 10000; // Time aborted imports get to record their state
+export const SAMPLE_ROWS = 50; // Max non-empty values inspected per column for type inference
+
+/**
+ * Whether a column is computed by an expression instead of read from the file
+ */
+export function isDerivedColumn(column: Column): boolean {
+  return column.config?.expression !== undefined;
+}
+
+/**
+ * Whether a column's values are stored, i.e. it is not a "skip" source
+ */
+export function isStoredColumn(column: Column): boolean {
+  return column.source !== "skip";
+}
 
 // Helper functions for header normalization (should match client-side logic)
 export function stripBom(str: string): string {
@@ -68,3 +411,33 @@ export function stripBom(str: string): string {
 export function normalizeHeader(header: string): string {
   return stripBom(header.trim());
 }
+
+/**
+ * Stable database key for a header, e.g. "Email Address" -> "email_address"
+ */
+export function slugify(header: string): string {
+  return normalizeHeader(header)
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/**
+ * Normalize headers, name empty ones "Column N" and suffix repeats with
+ * _2, _3, ... so every header is unique
+ */
+export function dedupeHeaders(headers: string[]): string[] {
+  const used = new Set<string>();
+
+  return headers.map((header, index) => {
+    const base = normalizeHeader(header) || `Column ${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base}_${n}`;
+    }
+    used.add(name);
+    return name;
+  });
+}
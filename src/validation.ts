@@ -0,0 +1,221 @@
+import { eq, sql } from "drizzle-orm";
+import { dbWs } from "./db/drizzle";
+import { listRows } from "./db/schema";
+import {
+  Column,
+  ColumnValidation,
+  ColumnViolations,
+  VIOLATION_EXAMPLES,
+} from "./types";
+
+export type ValidationRule = keyof ColumnValidation;
+
+/**
+ * Raised when a value breaks one of its column's validation rules
+ */
+export class ValidationError extends Error {
+  constructor(
+    readonly column: Column,
+    readonly value: string,
+    readonly rule: ValidationRule,
+    readonly reason: string
+  ) {
+    super(`${reason} in column "${column.name}": ${value}`);
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * Raised at the end of a job with onRowError "fail" once every row has been
+ * checked, when any of them broke a validation rule
+ */
+export class ValidationFailedError extends Error {
+  constructor(readonly violations: ColumnViolations[]) {
+    const counts = violations.map(
+      (column) =>
+        `${column.count} in "${column.column}" (${Object.keys(
+          column.rules
+        ).join(", ")})`
+    );
+    super(`Rows failed validation: ${counts.join(", ")}`);
+    this.name = "ValidationFailedError";
+  }
+}
+
+// Compiled patterns, anchored to match the whole value
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Checks values against their columns' validation rules. Unique columns
+ * remember the values of the rows accepted so far.
+ */
+export class RowValidator {
+  private readonly seen = new Map<string, Set<string>>();
+
+  constructor(columns: Column[]) {
+    for (const column of columns) {
+      if (column.validation?.unique) {
+        this.seen.set(column.key, new Set());
+      }
+    }
+  }
+
+  /**
+   * Remember the values of unique columns that a previous run of the job
+   * already committed
+   */
+  async restore(jobId: string): Promise<void> {
+    for (const [key, values] of this.seen) {
+      const rows = await dbWs
+        .select({ value: sql<unknown>`${listRows.data} -> ${key}` })
+        .from(listRows)
+        .where(eq(listRows.jobId, jobId));
+      for (const { value } of rows) {
+        if (value !== null) values.add(JSON.stringify(value));
+      }
+    }
+  }
+
+  /**
+   * Check a transformed value against the column's rules, each part of it
+   * for a split value. Nested JSON values only count as present. Throws a
+   * ValidationError for the first rule broken.
+   */
+  check(column: Column, value: unknown): void {
+    const rules = column.validation;
+    if (!rules) return;
+
+    const parts = textParts(value);
+    if (parts === null) return;
+    if (parts.length === 0) {
+      if (rules.required) {
+        throw new ValidationError(column, "", "required", "Missing value");
+      }
+      return;
+    }
+
+    for (const part of parts) {
+      if (rules.pattern && !compilePattern(rules.pattern).test(part)) {
+        throw new ValidationError(
+          column,
+          part,
+          "pattern",
+          "Value does not match pattern"
+        );
+      }
+      if (rules.minLength !== undefined && part.length < rules.minLength) {
+        throw new ValidationError(
+          column,
+          part,
+          "minLength",
+          `Value shorter than ${rules.minLength} characters`
+        );
+      }
+      if (rules.maxLength !== undefined && part.length > rules.maxLength) {
+        throw new ValidationError(
+          column,
+          part,
+          "maxLength",
+          `Value longer than ${rules.maxLength} characters`
+        );
+      }
+      if (rules.allowedValues && !rules.allowedValues.includes(part)) {
+        throw new ValidationError(
+          column,
+          part,
+          "allowedValues",
+          "Value not allowed"
+        );
+      }
+    }
+  }
+
+  /**
+   * Check a row's coerced values against its unique columns, and remember
+   * them once the whole row passes
+   */
+  checkUnique(columns: Column[], data: Record<string, unknown>): void {
+    const pending: [Set<string>, string][] = [];
+
+    for (const column of columns) {
+      const values = this.seen.get(column.key);
+      const value = data[column.key];
+      if (!values || value === null || value === undefined) continue;
+
+      const serialized = JSON.stringify(value);
+      if (values.has(serialized)) {
+        throw new ValidationError(
+          column,
+          typeof value === "string" ? value : serialized,
+          "unique",
+          "Duplicate value"
+        );
+      }
+      pending.push([values, serialized]);
+    }
+
+    for (const [values, serialized] of pending) {
+      values.add(serialized);
+    }
+  }
+}
+
+/**
+ * Counts validation failures per column and rule, keeping the first few
+ * offending values of each column
+ */
+export class ViolationSummary {
+  private readonly columns = new Map<string, ColumnViolations>();
+
+  add(line: number, error: ValidationError): void {
+    let summary = this.columns.get(error.column.name);
+    if (!summary) {
+      summary = {
+        column: error.column.name,
+        count: 0,
+        rules: {},
+        examples: [],
+      };
+      this.columns.set(error.column.name, summary);
+    }
+
+    summary.count++;
+    summary.rules[error.rule] = (summary.rules[error.rule] ?? 0) + 1;
+    if (summary.examples.length < VIOLATION_EXAMPLES) {
+      summary.examples.push({ line, rule: error.rule, value: error.value });
+    }
+  }
+
+  get size(): number {
+    return this.columns.size;
+  }
+
+  toJSON(): ColumnViolations[] {
+    return [...this.columns.values()];
+  }
+}
+
+/**
+ * The text values rules apply to: none for an empty value, each part of a
+ * split one, null for nested JSON
+ */
+function textParts(value: unknown): string[] | null {
+  if (value === null || value === undefined || value === "") return [];
+  if (typeof value === "string") return [value];
+  if (typeof value === "number" || typeof value === "boolean") {
+    return [String(value)];
+  }
+  if (Array.isArray(value) && value.every((part) => typeof part === "string")) {
+    return value;
+  }
+  return null;
+}
+
+function compilePattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = new RegExp(`^(?:${pattern})$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
@@ -0,0 +1,166 @@
+import { createHmac } from "crypto";
+import {
+  JobStatus,
+  WebhookDelivery,
+  WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_MS,
+  WEBHOOK_TIMEOUT_MS,
+} from "./types";
+
+const WEBHOOK_SIGNING_SECRET = process.env.WEBHOOK_SIGNING_SECRET;
+
+// Deliveries started by sendWebhook that have not finished yet
+const pendingDeliveries = new Set<Promise<void>>();
+
+/**
+ * HMAC-SHA256 over `${timestamp}.${body}`, hex encoded. Receivers recompute it
+ * with the shared secret and reject stale timestamps to prevent replays.
+ */
+export function signWebhook(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  return createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+}
+
+/**
+ * POST the final status of a job to its callbackUrl, retrying network
+ * errors, 429 and 5xx responses with exponential backoff. Never throws; the
+ * outcome is returned for the caller to record on the job.
+ */
+export async function deliverWebhook(
+  url: string,
+  status: JobStatus
+): Promise<WebhookDelivery> {
+  if (!WEBHOOK_SIGNING_SECRET) {
+    console.error(
+      `Not delivering webhook for job ${status.jobId}: WEBHOOK_SIGNING_SECRET is not set`
+    );
+    return {
+      delivered: false,
+      attempts: 0,
+      error: "WEBHOOK_SIGNING_SECRET is not configured",
+    };
+  }
+
+  const body = JSON.stringify(status);
+  let delivery: WebhookDelivery = { delivered: false, attempts: 0 };
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    if (attempt > 1) {
+      await sleep(WEBHOOK_RETRY_BASE_MS * 2 ** (attempt - 2));
+    }
+
+    // Signed per attempt so a retry does not carry a stale timestamp
+    const timestamp = Math.floor(Date.now() / 1000);
+    let retryable: boolean;
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Timestamp": String(timestamp),
+          "X-Webhook-Signature": `v1=${signWebhook(
+            WEBHOOK_SIGNING_SECRET,
+            timestamp,
+            body
+          )}`,
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+
+      if (response.ok) {
+        console.log(
+          `Delivered webhook for job ${status.jobId} (attempt ${attempt})`
+        );
+        return {
+          delivered: true,
+          attempts: attempt,
+          statusCode: response.status,
+          deliveredAt: new Date().toISOString(),
+        };
+      }
+
+      delivery = {
+        delivered: false,
+        attempts: attempt,
+        statusCode: response.status,
+        error: `HTTP ${response.status}`,
+      };
+      retryable = response.status === 429 || response.status >= 500;
+    } catch (error) {
+      delivery = {
+        delivered: false,
+        attempts: attempt,
+        error: error instanceof Error ? error.message : String(error),
+      };
+      retryable = true;
+    }
+
+    console.warn(
+      `Webhook attempt ${attempt} for job ${status.jobId} failed: ${delivery.error}`
+    );
+    if (!retryable) break;
+  }
+
+  console.error(
+    `Giving up on webhook for job ${status.jobId} after ${delivery.attempts} attempts`
+  );
+  return delivery;
+}
+
+/**
+ * Deliver a webhook without holding up the caller, and hand the outcome to
+ * `onDelivered` once retries are done. Shutdown waits for these with
+ * waitForWebhooks.
+ */
+export function sendWebhook(
+  url: string,
+  status: JobStatus,
+  onDelivered: (delivery: WebhookDelivery) => Promise<void>
+): void {
+  const delivery = deliverWebhook(url, status)
+    .then(onDelivered)
+    .catch((error) => {
+      console.error(
+        `Failed to record webhook delivery for job ${status.jobId}:`,
+        error
+      );
+    })
+    .finally(() => pendingDeliveries.delete(delivery));
+  pendingDeliveries.add(delivery);
+}
+
+/**
+ * Wait up to `timeoutMs` for the webhooks still being delivered. Returns
+ * whether they all finished.
+ */
+export async function waitForWebhooks(timeoutMs: number): Promise<boolean> {
+  if (pendingDeliveries.size === 0) return true;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = new Promise<boolean>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  const finished = await Promise.race([
+    Promise.all(pendingDeliveries).then(() => true),
+    timedOut,
+  ]);
+  clearTimeout(timer);
+
+  if (!finished) {
+    console.error(
+      `${pendingDeliveries.size} webhook(s) still being delivered after ${timeoutMs}ms`
+    );
+  }
+  return finished;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,30 +1,229 @@
 import csv from "csv-parser";
-import { eq } from "drizzle-orm";
+import { and, eq, sql } from "drizzle-orm";
+import { pipeline, Readable } from "stream";
 import { dbWs, DbWsTransaction } from "./db/drizzle";
-import { lists, listColumns, listRows } from "./db/schema";
-import { getObjectStream, deleteObject } from "./r2";
+import {
+  lists,
+  listColumns,
+  listRows,
+  listRowSnapshots,
+  listImports,
+  importCheckpoints,
+  ImportCheckpoint,
+} from "./db/schema";
+import { getObjectStream, deleteObject, putObject } from "./storage";
+import { coerceValue, coerceJsonValue, CoercionError } from "./coerce";
+import { transformValue } from "./transform";
+import { evaluateExpression, parseExpression } from "./expression";
+import {
+  RowValidator,
+  ValidationError,
+  ValidationFailedError,
+  ViolationSummary,
+} from "./validation";
+import {
+  ErrorReport,
+  RowErrorLimitError,
+  errorReportKey,
+} from "./error-report";
+import { RowDeduplicator } from "./dedupe";
+import { ProgressTracker } from "./progress";
+import {
+  openCsvSource,
+  hasSourceOffsets,
+  toCsvOptions,
+  CsvFormat,
+  CsvSource,
+} from "./csv-format";
+import { detectCompression, decompressStream, Compression } from "./decompress";
+import { isXlsx, readSheetRows } from "./xlsx";
+import { ByteCounter } from "./streams";
+import { insertRows, INSERT_BATCH_SIZE } from "./insert";
+import { readRowChunks, SourceRow } from "./row-pipeline";
+import {
+  matchHeaders,
+  checkHeaders,
+  mapCells,
+  positionalMapping,
+  sourceHeader,
+  isBlankRow,
+  HeaderMapping,
+  HeaderPolicy,
+} from "./headers";
+import { recordImport, ImportRun } from "./history";
+import { JobLeaseHeartbeat, LeaseLostError, WORKER_ID } from "./lease";
+import {
+  readJsonRecords,
+  isJsonObject,
+  JsonFormat,
+  JsonRecordError,
+} from "./json-source";
+import {
+  claimCheckpoint,
+  createCheckpoint,
+  advanceCheckpoint,
+  CheckpointConflictError,
+  CheckpointProgress,
+} from "./checkpoint";
 import {
   markRunning,
   reportProgress,
+  recordSkippedRows,
   markSucceeded,
   markFailed,
+  markCancelled,
+  markInterrupted,
+  isCancelRequested,
+  recordHeaders,
 } from "./status";
 import {
   WorkerMessage,
-  INSERT_BATCH_SIZE,
+  COMMIT_CHUNK_SIZE,
   PROGRESS_REPORT_INTERVAL,
+  CANCEL_CHECK_INTERVAL,
+  Column,
+  ColumnConfig,
   ColumnType,
+  DedupeOptions,
+  isDerivedColumn,
+  isStoredColumn,
+  RowCounts,
   MAX_FILE_SIZE,
+  MAX_ROW_ERRORS,
 } from "./types";
 
+export type PendingRow = {
+  listId: string;
+  jobId: string;
+  data: Record<string, any>;
+};
+
 /**
- * Process a CSV import job
+ * Writes a chunk of rows and advances the checkpoint to the chunk's end, in
+ * one transaction. Row counts are filled in by the writes themselves.
  */
-export async function processImport(message: WorkerMessage): Promise<void> {
+export type ChunkCommitter = (
+  rows: PendingRow[],
+  progress: Omit<CheckpointProgress, keyof RowCounts>,
+  completed: boolean
+) => Promise<void>;
+
+/**
+ * How processRows handles rows with cells that fail coercion
+ */
+export interface RowErrorOptions {
+  mode: "fail" | "skip";
+  maxErrors: number;
+  report: ErrorReport;
+  // Upload the report so far; called before each chunk commits
+  save: () => Promise<void>;
+}
+
+/**
+ * Raised inside processRows once a cancellation request is seen
+ */
+class ImportCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "ImportCancelledError";
+  }
+}
+
+/**
+ * Raised inside processImport once the worker is shutting down. The job keeps
+ * its checkpoint and is marked interrupted, then this is rethrown so the
+ * caller can hand the job off.
+ */
+export class ImportInterruptedError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was interrupted by a worker shutdown`);
+    this.name = "ImportInterruptedError";
+  }
+}
+
+/**
+ * List that the rows of a job are written to, with the column definitions
+ * used to coerce them and the checkpoint the import continues from
+ */
+export interface ImportTarget {
+  listId: string;
+  columns: Column[];
+  checkpoint: ImportCheckpoint;
+}
+
+/**
+ * Process a CSV (or XLSX, NDJSON, JSON) import job
+ *
+ * Rows are committed in chunks of COMMIT_CHUNK_SIZE, each together with a
+ * checkpoint (rows committed plus the source byte offset). A redelivered or
+ * restarted job resumes from its checkpoint with a ranged read of the file;
+ * files without usable offsets (see canResumeFromOffset) are re-read and
+ * their committed lines skipped instead.
+ *
+ * Aborting `signal` stops the import before its next row, leaving it
+ * resumable (see ImportInterruptedError).
+ *
+ * The job is only run under a heartbeat lease: a delivery while another
+ * worker holds a live lease is dropped, and one after the lease expired
+ * (the worker stalled or died) takes the job over from its checkpoint. If
+ * the checkpoint still moves underneath it, the lease holder reloads it and
+ * carries on from there.
+ */
+export async function processImport(
+  message: WorkerMessage,
+  signal?: AbortSignal
+): Promise<void> {
+  const lease = await JobLeaseHeartbeat.acquire(message.jobId);
+  if (!lease) {
+    console.log(
+      `Job ${message.jobId} is leased by another worker - ignoring this delivery`
+    );
+    return;
+  }
+
+  try {
+    while (true) {
+      try {
+        await runImport(message, lease, signal);
+        return;
+      } catch (error) {
+        if (!(error instanceof CheckpointConflictError)) throw error;
+      }
+
+      if (!(await lease.confirm())) {
+        console.log(
+          `Job ${message.jobId} is being imported by another worker - stopping this delivery`
+        );
+        return;
+      }
+      console.log(
+        `Checkpoint of job ${message.jobId} moved underneath this worker - reloading it`
+      );
+    }
+  } finally {
+    await lease.release();
+  }
+}
+
+async function runImport(
+  message: WorkerMessage,
+  lease: JobLeaseHeartbeat,
+  signal: AbortSignal | undefined
+): Promise<void> {
   const { jobId, listName, firstRowIsHeader, columns, r2, userId } = message;
+  // Error reports repeat the columns read from the file
+  const columnNames = columns
+    .filter((col) => !isDerivedColumn(col))
+    .map((col) => col.name);
+  let errorReport = new ErrorReport(columnNames);
+  const violations = new ViolationSummary();
+  let target: ImportTarget | null = null;
+  const run: ImportRun = { startedAt: new Date() };
 
   console.log(`Starting CSV import job ${jobId}`, {
+    mode: message.mode,
     listName,
+    targetListId: message.targetListId,
     firstRowIsHeader,
     columnsCount: columns.length,
     r2Key: r2.key,
@@ -33,96 +232,161 @@ export async function processImport(message: WorkerMessage): Promise<void> {
 
   try {
     // Mark job as running
-    await markRunning(jobId);
+    await markRunning(jobId, message.callbackUrl);
+
+    // Cancelled before it got picked up
+    if (await isCancelRequested(jobId)) {
+      throw new ImportCancelledError(jobId);
+    }
+    if (signal?.aborted) {
+      throw new ImportInterruptedError(jobId);
+    }
+
+    const existing = await dbWs.transaction((tx) =>
+      claimCheckpoint(tx, jobId, WORKER_ID)
+    );
+    if (existing?.completedAt) {
+      console.log(
+        `Job ${jobId} already completed into list ${existing.listId}, nothing to do`
+      );
+      await recordImport(
+        message,
+        await markSucceeded(jobId, existing.listId),
+        run
+      );
+      return;
+    }
 
-    // Get CSV stream from R2 with file size validation
-    const { stream: csvStream, contentLength } = await getObjectStream(
+    // Get CSV stream from R2 with file size validation; a resumed job only
+    // reads what follows its checkpoint, from the same version of the file
+    const compression = detectCompression(r2);
+    const spreadsheet = message.format === "csv" && isXlsx(r2);
+    const startOffset =
+      existing && canResumeFromOffset(message, compression, existing)
+        ? existing.byteOffset
+        : 0;
+    const {
+      stream: objectStream,
+      contentLength,
+      etag,
+    } = await getObjectStream(
       r2.bucket,
       r2.key,
-      MAX_FILE_SIZE
+      MAX_FILE_SIZE,
+      existing
+        ? {
+            start: startOffset,
+            ifMatch: existing.sourceEtag ?? undefined,
+          }
+        : undefined
     );
 
+    run.fileSize = contentLength;
+    run.sourceEtag = etag;
+
+    // Count bytes off the object itself, so progress matches contentLength
+    // whatever decompression and decoding happen downstream; a read from the
+    // start is also hashed for the import history
+    const counter = new ByteCounter(startOffset === 0 ? "sha256" : undefined);
+    pipeline(objectStream, counter, () => {});
+
+    const decompressed =
+      compression === "none"
+        ? null
+        : await decompressStream(
+            counter,
+            compression,
+            message.format,
+            message.zipEntry
+          );
+    const input = decompressed?.stream ?? counter;
+
+    // Decode CSV to UTF-8; a resumed job reuses the format its first run resolved
+    const csvSource =
+      message.format !== "csv" || spreadsheet
+        ? null
+        : await openCsvSource(
+            input,
+            existing?.csvFormat
+              ? toCsvOptions(existing.csvFormat)
+              : message.parser
+          );
+
     console.log(`Processing CSV file: ${r2.key}`, {
       size: contentLength
         ? `${(contentLength / 1024 / 1024).toFixed(2)}MB`
         : "unknown",
       maxAllowed: `${(MAX_FILE_SIZE / 1024 / 1024).toFixed(0)}MB`,
+      format: spreadsheet ? "xlsx" : message.format,
+      compression,
+      zipEntry: decompressed?.entry,
+      csvFormat: csvSource?.format,
+      sheet: spreadsheet ? message.sheet ?? 0 : undefined,
+      resumeFrom: existing ? startOffset : undefined,
     });
 
-    // Process CSV in transaction
-    let thisWorkerProcessedRows = false;
-    const result = await dbWs.transaction(async (tx) => {
-      // Atomic insert with conflict handling for idempotency
-      let newList;
-      try {
-        [newList] = await tx
-          .insert(lists)
-          .values({
-            userId,
-            name: listName,
-            jobId,
-          })
-          .returning({ id: lists.id });
-      } catch (error: any) {
-        // Handle unique constraint violation on jobId (more robust check)
-        if (error.code === "23505") {
-          // Job already processed by another worker, fetch existing list
-          const existingList = await tx
-            .select({ id: lists.id })
-            .from(lists)
-            .where(eq(lists.jobId, jobId))
-            .limit(1);
-
-          if (existingList.length > 0) {
-            console.log(
-              `Job ${jobId} already processed by another worker, list exists: ${existingList[0].id}`
-            );
-            return { listId: existingList[0].id, isDuplicate: true };
-          }
-        }
-        throw error; // Re-throw if not a jobId conflict
+    if (existing) {
+      target = await resumeImport(message, existing);
+      if (existing.skippedRows > 0) {
+        errorReport = await restoreErrorReport(
+          r2.bucket,
+          jobId,
+          columnNames,
+          existing.linesConsumed
+        );
       }
+    } else {
+      target = await startImport(message, etag, csvSource?.format ?? null);
+    }
 
-      console.log(`Created list ${newList.id} for job ${jobId}`);
-
-      // Insert column definitions
-      const columnData = columns.map((col) => ({
-        listId: newList.id,
-        name: col.name,
-        key: col.key,
-        type: col.type,
-        order: col.order,
-      }));
-
-      await tx.insert(listColumns).values(columnData);
+    if (!target) {
+      (csvSource?.stream ?? input).destroy();
       console.log(
-        `Inserted ${columns.length} column definitions for list ${newList.id}`
+        `Job ${jobId} was duplicate - not marking as succeeded (other worker may still be processing)`
       );
+      return;
+    }
 
-      // Process CSV rows
-      await processCsvRows(
-        csvStream,
-        newList.id,
-        columns,
-        firstRowIsHeader,
-        jobId,
-        tx
-      );
+    run.listId = target.listId;
+
+    // JSON records carry their field names, so only CSV and sheets have a
+    // header row; a resumed read starts past it
+    const hasHeader = message.format === "csv" && firstRowIsHeader;
+    const rows =
+      message.format !== "csv"
+        ? createJsonRowStream(input, target.columns, message.format)
+        : csvSource
+        ? createCsvRowStream(csvSource)
+        : createSheetRowStream(input, message.sheet);
 
-      thisWorkerProcessedRows = true;
-      return { listId: newList.id, isDuplicate: false };
+    // Process rows, committing chunk by chunk
+    await processRows(rows, {
+      jobId,
+      target,
+      startOffset,
+      offsetBase: startOffset + (csvSource?.bomLength ?? 0),
+      bytesRead: () => counter.bytes,
+      firstRowIsHeader: hasHeader,
+      cells: message.format === "csv",
+      headerPolicy: message.onHeaderMismatch,
+      rowErrors: {
+        mode: message.onRowError,
+        maxErrors: message.maxErrors ?? MAX_ROW_ERRORS,
+        report: errorReport,
+        save: () => uploadErrorReport(r2.bucket, jobId, errorReport),
+      },
+      violations,
+      dedupe: message.dedupe,
+      totalBytes: contentLength,
+      signal,
+      lease,
     });
 
-    // Only mark as succeeded if this worker actually processed the rows
-    if (thisWorkerProcessedRows) {
-      await markSucceeded(jobId, result.listId);
-    } else {
-      console.log(
-        `Job ${jobId} was duplicate - not marking as succeeded (other worker may still be processing)`
-      );
-    }
+    await saveErrorReport(jobId, r2.bucket, errorReport);
+    run.contentHash = counter.digest;
+    await recordImport(message, await markSucceeded(jobId, target.listId), run);
 
-    const listId = result.listId;
+    const listId = target.listId;
 
     // Optional: Clean up R2 object if configured
     const shouldDeleteR2 = process.env.DELETE_R2_AFTER_IMPORT === "true";
@@ -131,176 +395,837 @@ export async function processImport(message: WorkerMessage): Promise<void> {
     }
 
     console.log(
-      `Successfully completed CSV import job ${jobId}, created list ${listId}`
+      `Successfully completed CSV import job ${jobId}, ${
+        message.mode === "append" ? "appended to" : "created"
+      } list ${listId}`
     );
   } catch (error) {
+    // processImport decides whether to reload the checkpoint or stop
+    if (error instanceof CheckpointConflictError) {
+      throw error;
+    }
+
+    if (error instanceof LeaseLostError) {
+      console.log(
+        `Job ${jobId} is being imported by another worker - stopping this delivery`
+      );
+      return;
+    }
+
+    if (error instanceof ImportInterruptedError) {
+      console.log(
+        `Interrupted CSV import job ${jobId}, it resumes from its checkpoint when delivered again`
+      );
+      await markInterrupted(jobId);
+      throw error;
+    }
+
+    if (error instanceof ImportCancelledError) {
+      console.log(`Cancelling CSV import job ${jobId}`);
+      if (target) {
+        await discardPartialImport(message, target.listId);
+      }
+      await recordImport(message, await markCancelled(jobId), run);
+      return;
+    }
+
     const errorMessage =
       error instanceof Error
         ? error.message
         : "Unknown error during CSV import";
     console.error(`Failed to process CSV import job ${jobId}:`, error);
-    await markFailed(jobId, errorMessage);
+    try {
+      // Keep the rows skipped so far available even though the job failed
+      await saveErrorReport(jobId, r2.bucket, errorReport);
+    } catch (reportError) {
+      console.error(
+        `Failed to save error report for job ${jobId}:`,
+        reportError
+      );
+    }
+
+    // A failed job is final: the delivery was acknowledged when it arrived,
+    // so nothing resumes it, and what it committed would be left orphaned
+    if (target) {
+      try {
+        await discardPartialImport(message, target.listId);
+      } catch (discardError) {
+        console.error(
+          `Failed to discard partial import for job ${jobId}:`,
+          discardError
+        );
+      }
+    }
+
+    await recordImport(
+      message,
+      await markFailed(
+        jobId,
+        errorMessage,
+        violations.size > 0 ? violations.toJSON() : undefined
+      ),
+      run
+    );
     throw error;
   }
 }
 
 /**
- * Process CSV rows and insert into database
+ * Whether a resumed job can continue with a ranged read at its checkpoint's
+ * byte offset. Compressed files, workbooks, JSON arrays and CSVs transcoded
+ * to UTF-8 have no offsets that map onto the object.
+ */
+function canResumeFromOffset(
+  message: WorkerMessage,
+  compression: Compression,
+  checkpoint: ImportCheckpoint
+): boolean {
+  if (compression !== "none" || isXlsx(message.r2)) return false;
+  switch (message.format) {
+    case "ndjson":
+      return true;
+    case "json":
+      return false;
+    default:
+      return !checkpoint.csvFormat || hasSourceOffsets(checkpoint.csvFormat);
+  }
+}
+
+/**
+ * Create the target of a new job together with its initial checkpoint.
+ * Returns null if another delivery of the job got there first.
+ */
+async function startImport(
+  message: WorkerMessage,
+  sourceEtag: string | undefined,
+  csvFormat: CsvFormat | null
+): Promise<ImportTarget | null> {
+  try {
+    return await dbWs.transaction(async (tx) => {
+      const { listId, columns } =
+        message.mode === "append"
+          ? await prepareAppendTarget(tx, message)
+          : await createTargetList(tx, message);
+
+      const checkpoint = await createCheckpoint(
+        tx,
+        message.jobId,
+        listId,
+        sourceEtag,
+        csvFormat,
+        WORKER_ID
+      );
+      return { listId, columns, checkpoint };
+    });
+  } catch (error: any) {
+    // Unique violation on jobId (lists, list_imports or import_checkpoints)
+    if (error.code === "23505" || error.cause?.code === "23505") {
+      console.log(`Job ${message.jobId} already started by another worker`);
+      return null;
+    }
+    throw error; // Re-throw if not a jobId conflict
+  }
+}
+
+/**
+ * Rebuild the target of a job that has a checkpoint from an earlier run
+ */
+async function resumeImport(
+  message: WorkerMessage,
+  checkpoint: ImportCheckpoint
+): Promise<ImportTarget> {
+  const columns =
+    message.mode === "append"
+      ? await dbWs.transaction((tx) =>
+          resolveAppendColumns(tx, checkpoint.listId, message.columns)
+        )
+      : message.columns;
+
+  console.log(
+    `Resuming job ${message.jobId} into list ${checkpoint.listId} from line ${checkpoint.linesConsumed}`,
+    {
+      byteOffset: checkpoint.byteOffset,
+      processedRows: checkpoint.processedRows,
+    }
+  );
+
+  return { listId: checkpoint.listId, columns, checkpoint };
+}
+
+/**
+ * Create the list and its column definitions for a "create" job. The list
+ * stays "importing" until the final chunk commits.
+ */
+async function createTargetList(
+  tx: DbWsTransaction,
+  message: WorkerMessage
+): Promise<{ listId: string; columns: Column[] }> {
+  const { jobId, listName, columns, userId } = message;
+
+  const [newList] = await tx
+    .insert(lists)
+    .values({
+      userId,
+      name: listName,
+      jobId,
+      importStatus: "importing",
+    })
+    .returning({ id: lists.id });
+
+  console.log(`Created list ${newList.id} for job ${jobId}`);
+
+  // Insert column definitions; skipped columns are only read for expressions
+  const columnData = columns.filter(isStoredColumn).map((col) => ({
+    listId: newList.id,
+    name: col.name,
+    key: col.key,
+    type: col.type,
+    order: col.order,
+    config: col.config ?? null,
+  }));
+
+  await tx.insert(listColumns).values(columnData);
+  console.log(
+    `Inserted ${columnData.length} column definitions for list ${newList.id}`
+  );
+
+  return { listId: newList.id, columns };
+}
+
+/**
+ * Resolve the existing list of an "append" job and map the incoming columns
+ * onto its column definitions by key
  */
-async function processCsvRows(
-  csvStream: NodeJS.ReadableStream,
+async function prepareAppendTarget(
+  tx: DbWsTransaction,
+  message: WorkerMessage
+): Promise<{ listId: string; columns: Column[] }> {
+  const { jobId, columns, userId } = message;
+  const listId = message.targetListId!;
+
+  const [list] = await tx
+    .select({ id: lists.id })
+    .from(lists)
+    .where(and(eq(lists.id, listId), eq(lists.userId, userId)))
+    .limit(1);
+
+  if (!list) {
+    throw new Error(`List ${listId} not found for user ${userId}`);
+  }
+
+  // Record the import; a conflict on jobId means it was already started
+  await tx.insert(listImports).values({ listId, jobId });
+
+  const mappedColumns = await resolveAppendColumns(tx, listId, columns);
+
+  await tx
+    .update(lists)
+    .set({ importStatus: "importing", updatedAt: new Date() })
+    .where(eq(lists.id, listId));
+
+  console.log(
+    `Appending job ${jobId} to list ${listId} using ${mappedColumns.length} existing columns`
+  );
+
+  return { listId, columns: mappedColumns };
+}
+
+/**
+ * Map incoming columns onto the list's column definitions by key
+ */
+async function resolveAppendColumns(
+  tx: DbWsTransaction,
   listId: string,
-  columns: Array<{
-    name: string;
-    key: string;
-    type: ColumnType;
-    order: number;
-  }>,
-  firstRowIsHeader: boolean,
+  columns: Column[]
+): Promise<Column[]> {
+  const existingColumns = await tx
+    .select()
+    .from(listColumns)
+    .where(eq(listColumns.listId, listId));
+  const existingByKey = new Map(existingColumns.map((col) => [col.key, col]));
+
+  const unknownKeys = columns
+    .filter((col) => isStoredColumn(col) && !existingByKey.has(col.key))
+    .map((col) => col.key);
+  if (unknownKeys.length > 0) {
+    throw new Error(
+      `Columns not found in list ${listId}: ${unknownKeys.join(", ")}`
+    );
+  }
+
+  // Keep the incoming names (they match the CSV) but transform and coerce with
+  // the list's own type and config so appended rows look like the existing ones
+  const mapped = columns.map((col) => {
+    const existing = existingByKey.get(col.key);
+    if (!existing) return col; // a skipped column
+    return {
+      ...col,
+      type: existing.type as ColumnType,
+      config: (existing.config as ColumnConfig | null) ?? undefined,
+    };
+  });
+
+  // Derived columns of the list are computed for appended rows too
+  const incomingKeys = new Set(columns.map((col) => col.key));
+  const derived = existingColumns
+    .filter(
+      (col) =>
+        !incomingKeys.has(col.key) &&
+        (col.config as ColumnConfig | null)?.expression !== undefined
+    )
+    .map((col) => ({
+      name: col.name,
+      key: col.key,
+      type: col.type as ColumnType,
+      order: col.order,
+      config: col.config as ColumnConfig,
+    }));
+
+  return [...mapped, ...derived];
+}
+
+/**
+ * Remove everything a failed or cancelled job committed: the whole list for
+ * "create" jobs, the job's rows for "append" jobs. Rows that dedupe overwrote
+ * or merged in an existing list get their snapshotted data back.
+ */
+async function discardPartialImport(
+  message: WorkerMessage,
+  listId: string
+): Promise<void> {
+  const { jobId } = message;
+
+  if (message.mode !== "append") {
+    // Cascades to columns, rows and the checkpoint
+    await dbWs.delete(lists).where(eq(lists.id, listId));
+    console.log(`Discarded partial list ${listId} of job ${jobId}`);
+    return;
+  }
+
+  await dbWs.transaction(async (tx) => {
+    await tx.execute(sql`
+      update ${listRows}
+      set data = ${listRowSnapshots.data}
+      from ${listRowSnapshots}
+      where ${listRowSnapshots.jobId} = ${jobId}
+        and ${listRows.id} = ${listRowSnapshots.rowId}
+    `);
+    await tx.delete(listRowSnapshots).where(eq(listRowSnapshots.jobId, jobId));
+    await tx
+      .delete(listRows)
+      .where(and(eq(listRows.listId, listId), eq(listRows.jobId, jobId)));
+    await tx
+      .delete(importCheckpoints)
+      .where(eq(importCheckpoints.jobId, jobId));
+    await tx.delete(listImports).where(eq(listImports.jobId, jobId));
+    await tx
+      .update(lists)
+      .set({ importStatus: "ready", updatedAt: new Date() })
+      .where(eq(lists.id, listId));
+  });
+  console.log(`Discarded rows appended to list ${listId} by job ${jobId}`);
+}
+
+/**
+ * Upload the current skipped-rows report to R2
+ */
+async function uploadErrorReport(
+  bucket: string,
   jobId: string,
-  tx: DbWsTransaction
+  errorReport: ErrorReport
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    let processedRows = 0;
-    let batch: Array<{ listId: string; data: Record<string, any> }> = [];
-
-    // Create column key mapping for easy lookup
-    const columnMap = new Map(columns.map((col) => [col.name, col]));
-
-    // Configure CSV parser with canonical headers (eliminates header mismatch issues)
-    const parserOptions: any = {
-      // Always use our canonical column names as headers
-      headers: columns.map((col) => col.name),
-      // Use mapValues to trim all cell values
-      mapValues: ({ value }: { value: string }) =>
-        typeof value === "string" ? value.trim() : value,
-    };
+  await putObject(
+    bucket,
+    errorReportKey(jobId),
+    errorReport.toCsv(),
+    "text/csv"
+  );
+  errorReport.markSaved();
+}
+
+/**
+ * Load the skipped rows a previous run of the job uploaded
+ */
+async function restoreErrorReport(
+  bucket: string,
+  jobId: string,
+  columnNames: string[],
+  upToLine: number
+): Promise<ErrorReport> {
+  const { stream } = await getObjectStream(bucket, errorReportKey(jobId));
+  return ErrorReport.restore(columnNames, stream, upToLine);
+}
+
+/**
+ * Upload the skipped-rows report next to the source file and record it on the job
+ */
+async function saveErrorReport(
+  jobId: string,
+  bucket: string,
+  errorReport: ErrorReport
+): Promise<void> {
+  if (errorReport.size === 0) return;
+
+  const key = errorReportKey(jobId);
+  if (errorReport.hasUnsavedErrors) {
+    await uploadErrorReport(bucket, jobId, errorReport);
+  }
+  await recordSkippedRows(jobId, errorReport.size, key);
+  console.log(
+    `Skipped ${errorReport.size} invalid rows for job ${jobId}, report: ${key}`
+  );
+}
+
+/**
+ * What processRows needs to know about the job it imports
+ */
+export interface RowsOptions {
+  jobId: string;
+  target: ImportTarget;
+  // Source offset the stream starts at: the checkpoint's byte offset for a
+  // ranged resume, 0 when the file is read (and committed lines skipped) again
+  startOffset: number;
+  offsetBase: number; // source offset of the rows' byteOffset 0 (past any BOM)
+  bytesRead: () => number; // object bytes read so far (compressed for .gz/.zip)
+  firstRowIsHeader: boolean;
+  // CSV and sheet rows are cells keyed by position, mapped to columns by
+  // the header row; JSON records are keyed by column name already
+  cells: boolean;
+  headerPolicy: HeaderPolicy;
+  rowErrors: RowErrorOptions;
+  violations: ViolationSummary; // filled in as rows fail validation
+  dedupe?: DedupeOptions;
+  totalBytes?: number; // size of the source file, for percent complete and ETA
+  signal?: AbortSignal; // aborted when the worker shuts down
+  lease: JobLeaseHeartbeat;
+  commit?: ChunkCommitter; // a database transaction unless stubbed
+}
 
-    // If CSV has header row, skip it since we're using canonical headers
-    if (firstRowIsHeader) {
-      parserOptions.skipLines = 1;
+/**
+ * Parse a decoded CSV stream into rows of cells keyed by position, the
+ * header row included
+ */
+function createCsvRowStream(source: CsvSource): Readable {
+  const parser = csv({
+    // Cells are matched to columns by processRows, using the header row
+    headers: false,
+    // Use mapValues to trim all cell values
+    mapValues: ({ value }: { value: string }) =>
+      typeof value === "string" ? value.trim() : value,
+    // Emit { row, byteOffset } so chunks can be checkpointed
+    outputByteOffset: true,
+    separator: source.format.delimiter,
+    quote: source.format.quote,
+    escape: source.format.escape,
+  });
+  // pipe() does not forward read errors (e.g. a dropped R2 connection)
+  source.stream.on("error", (error) => parser.destroy(error));
+  parser.once("close", () => source.stream.destroy());
+  source.stream.pipe(parser);
+  return parser;
+}
+
+/**
+ * Read a workbook sheet into rows of trimmed cells keyed by position, like
+ * CSV rows, the header row included
+ */
+function createSheetRowStream(
+  stream: Readable,
+  sheet: string | number | undefined
+): Readable {
+  async function* sheetRows(): AsyncGenerator<SourceRow> {
+    for await (const cells of readSheetRows(stream, sheet)) {
+      yield { row: { ...cells.map((cell) => (cell ?? "").trim()) } };
     }
+  }
 
-    const parser = csv(parserOptions);
+  const rows = Readable.from(sheetRows());
+  rows.once("close", () => stream.destroy());
+  return rows;
+}
 
-    parser.on("data", async (row: Record<string, string>) => {
-      try {
-        // Skip completely empty rows (all values are empty or null)
-        const hasData = Object.values(row).some(
-          (value) => value != null && value.toString().trim() !== ""
+/**
+ * Read NDJSON / JSON array records into rows keyed by the job's column
+ * names, matched against the records' field names (or the field named by
+ * their source)
+ */
+function createJsonRowStream(
+  stream: Readable,
+  columns: Column[],
+  format: JsonFormat
+): Readable {
+  const readColumns = columns.filter((col) => !isDerivedColumn(col));
+
+  async function* jsonRows(): AsyncGenerator<SourceRow> {
+    let recordNumber = 0;
+    for await (const { value, byteOffset } of readJsonRecords(stream, format)) {
+      recordNumber++;
+      // A blank NDJSON line, counted so lines stay aligned
+      if (value === undefined) {
+        yield { row: {}, byteOffset };
+        continue;
+      }
+      if (!isJsonObject(value)) {
+        throw new JsonRecordError(
+          `Record ${recordNumber} is not a JSON object`
         );
-        if (!hasData) {
-          return;
-        }
+      }
 
-        // Build data object with proper typing
-        const dataObj: Record<string, any> = {};
-
-        // With canonical headers, every column in row corresponds to a defined column
-        for (const [columnName, rawValue] of Object.entries(row)) {
-          const column = columnMap.get(columnName);
-          // This should never be null since we use canonical headers
-          if (!column) {
-            throw new Error(
-              `Unexpected: column "${columnName}" not found in column map`
-            );
-          }
+      yield {
+        row: Object.fromEntries(
+          readColumns.map((col) => {
+            const field = value[sourceHeader(col)];
+            return [col.name, typeof field === "string" ? field.trim() : field];
+          })
+        ),
+        byteOffset,
+      };
+    }
+  }
 
-          // Value is already trimmed by mapValues
-          const trimmedValue = rawValue;
-
-          // Parse value based on column type
-          if (column.type === "jsonb" && trimmedValue) {
-            try {
-              // Only attempt JSON parsing for non-empty values that look like JSON
-              const firstChar = trimmedValue.match(/\S/)?.[0];
-              if (firstChar === "{" || firstChar === "[") {
-                const parsed = JSON.parse(trimmedValue);
-                if (
-                  parsed !== null &&
-                  (Array.isArray(parsed) || typeof parsed === "object")
-                ) {
-                  dataObj[column.key] = parsed;
-                } else {
-                  dataObj[column.key] = trimmedValue;
-                }
-              } else {
-                dataObj[column.key] = trimmedValue;
-              }
-            } catch (parseError) {
-              throw new Error(
-                `Invalid JSON in column "${column.name}": ${trimmedValue}`
-              );
-            }
-          } else {
-            dataObj[column.key] = trimmedValue || null;
-          }
-        }
+  const rows = Readable.from(jsonRows());
+  rows.once("close", () => stream.destroy());
+  return rows;
+}
 
-        // Add to batch
-        batch.push({
-          listId,
-          data: dataObj,
-        });
-
-        processedRows++;
-
-        // Insert batch when it reaches the limit
-        if (batch.length >= INSERT_BATCH_SIZE) {
-          // Pause the parser to prevent backpressure during async DB operation
-          parser.pause();
-          try {
-            await insertBatch(tx, batch);
-            batch = [];
-          } finally {
-            // Always resume, even if insert fails
-            parser.resume();
-          }
-        }
+/**
+ * Coerce source rows and insert them into the database, one committed chunk
+ * at a time. Rows are read only while no chunk is being committed, and
+ * chunks commit strictly in source order.
+ */
+export async function processRows(
+  rows: Readable,
+  {
+    jobId,
+    target,
+    startOffset,
+    offsetBase,
+    bytesRead,
+    firstRowIsHeader,
+    cells,
+    headerPolicy,
+    rowErrors,
+    violations,
+    dedupe,
+    totalBytes,
+    signal,
+    lease,
+    commit,
+  }: RowsOptions
+): Promise<void> {
+  const { listId, columns } = target;
 
-        // Report progress periodically
-        if (processedRows % PROGRESS_REPORT_INTERVAL === 0) {
-          // Pause the parser during progress reporting
-          parser.pause();
-          try {
-            await reportProgress(jobId, processedRows);
-          } finally {
-            // Always resume, even if progress reporting fails
-            parser.resume();
-          }
-        }
-      } catch (error) {
-        parser.destroy();
-        reject(error);
-        return;
+  let checkpoint = target.checkpoint;
+  // Reading from the start of the file unless resuming after a committed chunk
+  const fromStart = startOffset === 0;
+
+  let processedRows = checkpoint.processedRows;
+  const progress = new ProgressTracker(totalBytes, startOffset, processedRows);
+  const rowCounts: RowCounts = {
+    insertedRows: checkpoint.insertedRows,
+    updatedRows: checkpoint.updatedRows,
+    duplicateRows: checkpoint.duplicateRows,
+  };
+  const deduplicator = dedupe
+    ? new RowDeduplicator(listId, jobId, dedupe, insertBatch)
+    : null;
+
+  // Write a full batch, resolving duplicates when the job has a dedupe key
+  const writeBatch = async (tx: DbWsTransaction, rows: PendingRow[]) => {
+    if (!deduplicator) {
+      await insertBatch(tx, rows);
+      rowCounts.insertedRows += rows.length;
+      return;
+    }
+
+    const counts = await deduplicator.writeBatch(tx, rows);
+    rowCounts.insertedRows += counts.insertedRows;
+    rowCounts.updatedRows += counts.updatedRows;
+    rowCounts.duplicateRows += counts.duplicateRows;
+  };
+
+  // Write a chunk in one transaction with the checkpoint, counting its rows
+  const commitToDatabase: ChunkCommitter = async (
+    chunk,
+    position,
+    completed
+  ) => {
+    await dbWs.transaction(async (tx) => {
+      for (let i = 0; i < chunk.length; i += INSERT_BATCH_SIZE) {
+        await writeBatch(tx, chunk.slice(i, i + INSERT_BATCH_SIZE));
+      }
+
+      checkpoint = await advanceCheckpoint(
+        tx,
+        checkpoint,
+        { ...position, ...rowCounts },
+        completed
+      );
+
+      // Readers only see the list as complete once the last chunk is in,
+      // and the rows dedupe changed can no longer be rolled back
+      if (completed) {
+        await tx
+          .update(lists)
+          .set({ importStatus: "ready", updatedAt: new Date() })
+          .where(eq(lists.id, listId));
+        await tx
+          .delete(listRowSnapshots)
+          .where(eq(listRowSnapshots.jobId, jobId));
       }
     });
+  };
 
-    parser.on("end", async () => {
-      try {
-        // Insert remaining rows in batch
-        if (batch.length > 0) {
-          await insertBatch(tx, batch);
+  // Commit a chunk along with the position to resume from
+  const commitChunk = async (
+    chunk: PendingRow[],
+    byteOffset: number,
+    linesConsumed: number,
+    completed: boolean
+  ) => {
+    if (rowErrors.report.hasUnsavedErrors) {
+      await rowErrors.save();
+    }
+
+    await (commit ?? commitToDatabase)(
+      chunk,
+      {
+        byteOffset,
+        linesConsumed,
+        headerMapping,
+        processedRows,
+        skippedRows: rowErrors.report.size,
+      },
+      completed
+    );
+
+    console.log(
+      `Committed ${chunk.length} rows for job ${jobId} up to line ${linesConsumed}`
+    );
+  };
+
+  // Create column key mapping for easy lookup
+  const columnMap = new Map(columns.map((col) => [col.name, col]));
+
+  // Cell index of each column: read from the header row when this run
+  // starts at it, otherwise what an earlier run stored (by position for
+  // checkpoints that predate header matching, or files without a header)
+  let headerMapping = cells
+    ? checkpoint.headerMapping ?? positionalMapping(columns)
+    : null;
+
+  const storedColumns = columns.filter(isStoredColumn);
+  const derivedColumns = columns.filter(isDerivedColumn).map((column) => ({
+    column,
+    expression: parseExpression(column.config!.expression!),
+  }));
+  const validator = new RowValidator(storedColumns);
+
+  // Validate a transformed value, then coerce it based on column type; CSV
+  // and sheet cells are trimmed strings, JSON fields keep their JSON type,
+  // and a split cell is stored as an array
+  const toStoredValue = (column: Column, value: unknown): unknown => {
+    validator.check(column, value);
+    return typeof value === "string"
+      ? coerceValue(column, value)
+      : coerceJsonValue(column, value);
+  };
+
+  if (checkpoint.processedRows > 0) {
+    await validator.restore(jobId);
+  }
+  // Set on the first invalid row of an onRowError "fail" job; the rest of
+  // the file is only read to count violations, and nothing more is committed
+  let rejected = false;
+
+  // The header is read on the first run, from the first row that is not
+  // blank; later runs start past it and map cells as the checkpoint saved
+  let headerPending =
+    cells && firstRowIsHeader && checkpoint.linesConsumed === 0;
+
+  // Match the header row to the columns, failing the job when the policy
+  // does not allow the differences
+  const readHeaderRow = async (
+    headerCells: Record<string, unknown>
+  ): Promise<HeaderMapping> => {
+    const mapping = matchHeaders(
+      Object.values(headerCells).map((cell) => String(cell ?? "")),
+      columns,
+      headerPolicy
+    );
+    const { matchedBy, missing, unexpected } = mapping;
+    await recordHeaders(jobId, { matchedBy, missing, unexpected });
+
+    checkHeaders(mapping, headerPolicy);
+    if (missing.length > 0 || unexpected.length > 0) {
+      console.warn(
+        `Header row of job ${jobId} does not match its columns, matching by ${matchedBy}`,
+        { missing, unexpected }
+      );
+    }
+    return mapping;
+  };
+
+  // Coerce a source row, or return null for a blank or skipped one
+  const mapRow = async (
+    { row: cellsOrRow }: SourceRow,
+    rowLine: number
+  ): Promise<PendingRow | null> => {
+    // Stop at once on shutdown; rows after the last commit are read again
+    if (signal?.aborted) {
+      throw new ImportInterruptedError(jobId);
+    }
+    // Another worker took the job over while this one stalled
+    if (lease.lost) {
+      throw new LeaseLostError(jobId);
+    }
+
+    if (headerPending) {
+      if (isBlankRow(Object.values(cellsOrRow))) return null;
+      headerMapping = await readHeaderRow(cellsOrRow);
+      headerPending = false;
+      return null;
+    }
+    const row = headerMapping
+      ? mapCells(cellsOrRow, headerMapping)
+      : cellsOrRow;
+
+    // Skip completely empty rows (all values are empty or null)
+    if (isBlankRow(Object.values(row))) {
+      return null;
+    }
+
+    // Build data object with proper typing
+    const dataObj: Record<string, any> = {};
+    // Values after transforms by column key, for derived columns to read
+    const values: Record<string, unknown> = {};
+
+    try {
+      // Rows are keyed by column name, mapped from cells or JSON fields
+      for (const [columnName, rawValue] of Object.entries(row)) {
+        const column = columnMap.get(columnName);
+        // This should never be null since rows only carry the job's columns
+        if (!column) {
+          throw new Error(
+            `Unexpected: column "${columnName}" not found in column map`
+          );
         }
 
-        // Final progress report
-        await reportProgress(jobId, processedRows);
+        // Apply the column's transforms; skipped columns only feed
+        // expressions
+        values[column.key] =
+          typeof rawValue === "string"
+            ? transformValue(column, rawValue)
+            : rawValue;
+        if (isStoredColumn(column)) {
+          dataObj[column.key] = toStoredValue(column, values[column.key]);
+        }
+      }
 
-        console.log(`Processed ${processedRows} rows for list ${listId}`);
+      for (const { column, expression } of derivedColumns) {
+        const value = transformValue(
+          column,
+          evaluateExpression(expression, values)
+        );
+        dataObj[column.key] = toStoredValue(column, value);
+      }
+      validator.checkUnique(storedColumns, dataObj);
+    } catch (error) {
+      if (
+        !(error instanceof CoercionError || error instanceof ValidationError)
+      ) {
+        throw error;
+      }
+      if (error instanceof ValidationError) {
+        violations.add(rowLine, error);
+        rejected ||= rowErrors.mode === "fail";
+      }
+      // Past the first invalid row, rows are only checked
+      if (rejected) {
+        return null;
+      }
+      if (rowErrors.mode === "fail") {
+        throw error;
+      }
 
-        resolve();
-      } catch (error) {
-        reject(error);
+      rowErrors.report.add({
+        line: rowLine,
+        column: error.column.name,
+        reason: error.reason,
+        row,
+      });
+      if (rowErrors.report.size > rowErrors.maxErrors) {
+        throw new RowErrorLimitError(
+          rowErrors.maxErrors,
+          rowLine,
+          error.message
+        );
       }
-    });
+      return null;
+    }
 
-    parser.on("error", (error) => {
-      reject(new Error(`CSV parsing error: ${error.message}`));
-    });
+    processedRows++;
+
+    // Stop if the job was cancelled; rows after the last commit are dropped
+    if (
+      processedRows % CANCEL_CHECK_INTERVAL === 0 &&
+      (await isCancelRequested(jobId))
+    ) {
+      throw new ImportCancelledError(jobId);
+    }
+
+    // Report progress periodically
+    if (processedRows % PROGRESS_REPORT_INTERVAL === 0) {
+      await reportProgress(jobId, processedRows, {
+        ...rowCounts,
+        ...progress.snapshot(startOffset + bytesRead(), processedRows),
+      });
+    }
+
+    return rejected ? null : { listId, jobId, data: dataObj };
+  };
 
-    // Start streaming
-    csvStream.pipe(parser);
+  const chunks = readRowChunks(rows, {
+    // Source line of the row before the first; lines count blank rows and
+    // the header
+    firstLine: fromStart ? 0 : checkpoint.linesConsumed,
+    // Lines a re-read file already committed in an earlier run
+    replayedLines: fromStart ? checkpoint.linesConsumed : 0,
+    chunkSize: COMMIT_CHUNK_SIZE,
+    mapRow,
   });
+
+  // Parse and read errors (e.g. a malformed file or a dropped R2 connection)
+  // surface here, after the chunk being committed, if any, has finished
+  for await (const chunk of chunks) {
+    if (rejected) continue;
+
+    // The last chunk ends where the source does
+    const byteOffset = chunk.completed
+      ? startOffset + bytesRead()
+      : offsetBase + chunk.byteOffset!;
+    await commitChunk(
+      chunk.rows,
+      byteOffset,
+      chunk.linesConsumed,
+      chunk.completed
+    );
+  }
+
+  if (rejected) {
+    throw new ValidationFailedError(violations.toJSON());
+  }
+
+  // Final progress report
+  await reportProgress(jobId, processedRows, {
+    ...rowCounts,
+    ...progress.snapshot(startOffset + bytesRead(), processedRows),
+  });
+
+  console.log(
+    `Processed ${processedRows} rows for list ${listId} (${rowErrors.report.size} skipped)`,
+    rowCounts
+  );
 }
 
 /**
@@ -308,12 +1233,12 @@ async function processCsvRows(
  */
 async function insertBatch(
   tx: DbWsTransaction,
-  batch: Array<{ listId: string; data: Record<string, any> }>
+  batch: PendingRow[]
 ): Promise<void> {
   if (batch.length === 0) return;
 
   try {
-    await tx.insert(listRows).values(batch);
+    await insertRows(tx, batch);
     console.log(`Inserted batch of ${batch.length} rows`);
   } catch (error) {
     console.error(`Failed to insert batch of ${batch.length} rows:`, error);
@@ -0,0 +1,109 @@
+import { Readable } from "stream";
+import ExcelJS, { CellValue } from "exceljs";
+import { R2Config } from "./types";
+
+const XLSX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+/**
+ * Raised when the requested sheet is not in the workbook
+ */
+export class SheetNotFoundError extends Error {
+  constructor(sheet: string | number, sheetNames: string[]) {
+    super(
+      `Sheet ${
+        typeof sheet === "number" ? `at index ${sheet}` : `"${sheet}"`
+      } not found in workbook (sheets: ${sheetNames.join(", ")})`
+    );
+    this.name = "SheetNotFoundError";
+  }
+}
+
+// The stream reader sets these once workbook.xml has been read; the typings omit them
+type StreamedWorksheet = ExcelJS.stream.xlsx.WorksheetReader & {
+  name?: string;
+};
+type StreamedWorkbook = ExcelJS.stream.xlsx.WorkbookReader & {
+  model?: { sheets?: { name: string }[] };
+};
+
+/**
+ * Tell Excel workbooks apart by content type, falling back to the key's extension
+ */
+export function isXlsx(r2: R2Config): boolean {
+  return (
+    r2.contentType?.split(";")[0].trim().toLowerCase() === XLSX_CONTENT_TYPE ||
+    r2.key.toLowerCase().endsWith(".xlsx")
+  );
+}
+
+/**
+ * Stream the rows of one sheet (by name, or 0-based index in workbook order;
+ * the first sheet by default) as arrays of cell strings. Rows missing from
+ * the sheet are yielded empty, so the n-th row yielded is spreadsheet row n.
+ */
+export async function* readSheetRows(
+  stream: Readable,
+  sheet: string | number = 0
+): AsyncGenerator<string[]> {
+  const workbook: StreamedWorkbook = new ExcelJS.stream.xlsx.WorkbookReader(
+    stream,
+    {
+      worksheets: "emit",
+      sharedStrings: "cache",
+      styles: "cache", // needed to tell date cells from numbers
+      hyperlinks: "ignore",
+      entries: "ignore",
+    }
+  );
+
+  for await (const worksheet of workbook as AsyncIterable<StreamedWorksheet>) {
+    const sheetNames = workbook.model?.sheets?.map((s) => s.name) ?? [];
+    const name = typeof sheet === "number" ? sheetNames[sheet] : sheet;
+    if (name === undefined || worksheet.name !== name) {
+      // Unread sheets are drained by the reader
+      continue;
+    }
+
+    let nextRow = 1;
+    for await (const row of worksheet) {
+      for (; nextRow < row.number; nextRow++) {
+        yield [];
+      }
+      nextRow = row.number + 1;
+
+      // row.values is 1-based
+      const values = (row.values as CellValue[]).slice(1);
+      yield Array.from(values, (value) => cellToString(value));
+    }
+    return;
+  }
+
+  throw new SheetNotFoundError(
+    sheet,
+    workbook.model?.sheets?.map((s) => s.name) ?? []
+  );
+}
+
+/**
+ * Render a cell the way it would appear in a CSV export, with dates as ISO
+ * 8601 (just the date when there is no time of day)
+ */
+function cellToString(value: CellValue): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith("T00:00:00.000Z") ? iso.slice(0, 10) : iso;
+  }
+  if (typeof value !== "object") return String(value);
+
+  if ("richText" in value) {
+    return value.richText.map((part) => part.text).join("");
+  }
+  if ("hyperlink" in value) return cellToString(value.text);
+  if ("formula" in value || "sharedFormula" in value) {
+    return cellToString(value.result);
+  }
+  if ("error" in value) return value.error;
+  return "";
+}